@@ -0,0 +1,42 @@
+import { AutomationBrowser, Crawler } from '../src/index';
+
+async function crawlerDemo() {
+  console.log('🕷️ Crawler Demo\n');
+
+  const browser = new AutomationBrowser({
+    type: 'chrome',
+    headless: true
+  });
+
+  try {
+    await browser.launch();
+    console.log('✅ Browser launched');
+
+    const crawler = new Crawler(browser, {
+      rules: [
+        { key: 'title', selector: 'title' },
+        { key: 'h1', selector: 'h1' }
+      ],
+      maxDepth: 1,
+      maxPages: 10,
+      concurrency: 3,
+      exclude: [/\/(login|signup)/],
+      extractionOptions: { timeout: 5000, includeMetadata: false },
+      onPage: result => console.log(`📡 [depth ${result.depth}] ${result.url} ${result.error ? '❌ ' + result.error : '✅'}`)
+    });
+
+    const results = await crawler.crawl(['https://example.com', 'https://httpbin.org']);
+
+    console.log(`\n📦 Crawled ${results.length} pages`);
+    console.log(JSON.stringify(results.map(({ url, depth, data }) => ({ url, depth, data })), null, 2));
+
+  } catch (error) {
+    console.error('❌ Crawler demo failed:', error);
+  } finally {
+    await browser.close();
+    console.log('🧹 Browser closed');
+  }
+}
+
+// Run the demo
+crawlerDemo().catch(console.error);
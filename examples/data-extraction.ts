@@ -32,57 +32,40 @@ async function dataExtractionDemo() {
     const page2 = await browser.goto('https://news.ycombinator.com');
     const extractor2 = new DataExtractor(page2);
 
-    // Define custom extraction rules for Hacker News
+    // One container rule per story row; fields are read inside each row
+    const toNumber = (value: string) => {
+      const match = value.match(/(\d+)/);
+      return match ? parseInt(match[1], 10) : 0;
+    };
+
     const hackerNewsRules: ExtractionRule[] = [
       {
-        key: 'storyTitles',
-        selector: '.storylink',
-        multiple: true
-      },
-      {
-        key: 'storyLinks',
-        selector: '.storylink',
-        attribute: 'href',
-        multiple: true
-      },
-      {
-        key: 'points',
-        selector: '.score',
+        key: 'stories',
+        selector: 'tr.athing',
         multiple: true,
-        transform: (value: string) => {
-          const match = value.match(/(\d+)/);
-          return match ? parseInt(match[1], 10) : 0;
-        }
-      },
-      {
-        key: 'authors',
-        selector: '.hnuser',
-        multiple: true
-      },
-      {
-        key: 'commentCounts',
-        selector: 'a[href*="item?id="]:last-child',
-        multiple: true,
-        transform: (value: string) => {
-          const match = value.match(/(\d+)/);
-          return match ? parseInt(match[1], 10) : 0;
-        }
+        fields: [
+          { key: 'title', selector: '.titleline > a' },
+          { key: 'url', selector: '.titleline > a', attribute: 'href' },
+          {
+            key: 'subtext',
+            selector: 'xpath=following-sibling::tr[1]',
+            fields: [
+              { key: 'points', selector: '.score', transform: toNumber },
+              { key: 'author', selector: '.hnuser' },
+              { key: 'comments', selector: 'a[href*="item?id="]:last-child', transform: toNumber }
+            ]
+          }
+        ]
       }
     ];
 
     const hackerNewsData = await extractor2.extractData(hackerNewsRules);
     console.log('📊 Hacker News Data Sample:');
     
-    // Show first 3 stories in a structured way
+    // Show first 3 stories
     const structuredHN = {
-      topStories: hackerNewsData.storyTitles?.slice(0, 3).map((title: string, index: number) => ({
-        title,
-        link: hackerNewsData.storyLinks?.[index],
-        points: hackerNewsData.points?.[index] || 0,
-        author: hackerNewsData.authors?.[index],
-        comments: hackerNewsData.commentCounts?.[index] || 0
-      })),
-      totalStories: hackerNewsData.storyTitles?.length || 0,
+      topStories: hackerNewsData.stories?.slice(0, 3),
+      totalStories: hackerNewsData.stories?.length || 0,
       extractedAt: new Date().toISOString()
     };
 
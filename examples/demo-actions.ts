@@ -41,7 +41,7 @@ async function demoActions() {
 
     // Handle cookie consent if present
     try {
-      await actions.waitForElement('[id*="accept"], [id*="consent"], button[jsname]', { timeout: 3000 });
+      await actions.waitForElement('[id*="accept"], [id*="consent"], button[jsname]', { timeout: 3000, expected: true });
       const acceptButton = '[id*="accept"], [id*="consent"], button[jsname]';
       if (await actions.isVisible(acceptButton)) {
         await actions.click(acceptButton);
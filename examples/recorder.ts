@@ -0,0 +1,28 @@
+import { Recorder } from '../src/index';
+
+async function recorderDemo() {
+  const url = process.argv[2] || 'https://example.com';
+  const output = process.argv[3] || 'recorded-flow.ts';
+
+  console.log('🎬 Interaction Recorder\n');
+
+  const recorder = new Recorder({
+    browser: { type: 'chrome', viewport: { width: 1400, height: 900 } },
+    importPath: '../src/index'
+  });
+
+  try {
+    await recorder.start(url);
+    console.log(`✅ Recording ${url}`);
+    console.log('🖱️ Interact with the page, then close the browser window to finish');
+
+    await recorder.waitForClose();
+  } finally {
+    const steps = await recorder.stop();
+    recorder.save(output);
+    console.log(`\n💾 Saved ${steps.length} steps to: ${output}`);
+  }
+}
+
+// Run the recorder
+recorderDemo().catch(console.error);
@@ -18,7 +18,9 @@ async function redditSignInAutomation() {
   const browser = new AutomationBrowser({
     type: 'chrome',
     headless: false, // Set to true for background execution
-    viewport: { width: 1400, height: 900 }
+    viewport: { width: 1400, height: 900 },
+    sessionProfile: 'reddit', // Reuses .sessions/reddit.json across runs
+    trace: { name: 'reddit-signin' } // Failed actions leave a screenshot and DOM in .traces/reddit-signin
   });
 
   let actions: BrowserActions | undefined;
@@ -64,19 +66,14 @@ async function redditSignInAutomation() {
     let loginFound = false;
     let usedSelector = '';
 
-    // Try each selector until we find one that works
-    for (const selector of loginSelectors) {
-      try {
-        await actions.waitForElement(selector, { timeout: 3000 });
-        if (await actions.isVisible(selector)) {
-          usedSelector = selector;
-          loginFound = true;
-          console.log(`✅ Found sign-in button with selector: ${selector}`);
-          break;
-        }
-      } catch (error) {
-        console.log(`⚠️ Selector ${selector} not found, trying next...`);
-      }
+    // Try the candidates in order with a shared time budget
+    try {
+      const match = await actions.waitForElement(loginSelectors, { timeout: 10000 });
+      usedSelector = match.selector;
+      loginFound = true;
+      console.log(`✅ Found sign-in button with selector: ${match.selector} (${match.elapsed}ms)`);
+    } catch (error) {
+      console.log('⚠️ None of the sign-in selectors matched');
     }
 
     if (!loginFound) {
@@ -150,22 +147,10 @@ async function redditSignInAutomation() {
       'input[data-testid*="username"]'
     ];
 
-    let usernameFieldFound = false;
-    for (const selector of usernameSelectors) {
-      try {
-        await actions.waitForElement(selector, { timeout: 3000 });
-        if (await actions.isVisible(selector)) {
-          await actions.type(selector, credentials.username, { clear: true });
-          console.log('✅ Username entered');
-          usernameFieldFound = true;
-          break;
-        }
-      } catch (error) {
-        console.log(`⚠️ Username selector ${selector} not found, trying next...`);
-      }
-    }
-
-    if (!usernameFieldFound) {
+    try {
+      await actions.type(usernameSelectors, credentials.username, { clear: true, timeout: 10000 });
+      console.log(`✅ Username entered using ${actions.getLastMatch()?.selector}`);
+    } catch (error) {
       console.log('❌ Could not find username field');
     }
 
@@ -178,22 +163,10 @@ async function redditSignInAutomation() {
       'input[data-testid*="password"]'
     ];
 
-    let passwordFieldFound = false;
-    for (const selector of passwordSelectors) {
-      try {
-        await actions.waitForElement(selector, { timeout: 3000 });
-        if (await actions.isVisible(selector)) {
-          await actions.type(selector, credentials.password, { clear: true });
-          console.log('✅ Password entered');
-          passwordFieldFound = true;
-          break;
-        }
-      } catch (error) {
-        console.log(`⚠️ Password selector ${selector} not found, trying next...`);
-      }
-    }
-
-    if (!passwordFieldFound) {
+    try {
+      await actions.type(passwordSelectors, credentials.password, { clear: true, timeout: 10000 });
+      console.log(`✅ Password entered using ${actions.getLastMatch()?.selector}`);
+    } catch (error) {
       console.log('❌ Could not find password field');
     }
 
@@ -214,18 +187,12 @@ async function redditSignInAutomation() {
     ];
 
     let submitButtonFound = false;
-    for (const selector of submitSelectors) {
-      try {
-        await actions.waitForElement(selector, { timeout: 3000 });
-        if (await actions.isVisible(selector) && await actions.isEnabled(selector)) {
-          await actions.click(selector);
-          console.log('✅ Sign-in button clicked');
-          submitButtonFound = true;
-          break;
-        }
-      } catch (error) {
-        console.log(`⚠️ Submit selector ${selector} not found or not clickable, trying next...`);
-      }
+    try {
+      await actions.click(submitSelectors, { timeout: 10000 });
+      console.log(`✅ Sign-in button clicked using ${actions.getLastMatch()?.selector}`);
+      submitButtonFound = true;
+    } catch (error) {
+      console.log('⚠️ No submit selector was found or clickable');
     }
 
     if (!submitButtonFound) {
@@ -255,17 +222,13 @@ async function redditSignInAutomation() {
     ];
 
     let errorFound = false;
-    for (const selector of errorSelectors) {
-      try {
-        if (await actions.isVisible(selector)) {
-          const errorText = await actions.getText(selector);
-          console.log(`⚠️ Error message found: "${errorText}"`);
-          errorFound = true;
-          break;
-        }
-      } catch (error) {
-        // Error element not found, continue
-      }
+    try {
+      const match = await actions.waitForElement(errorSelectors, { timeout: 1000, expected: true });
+      const errorText = await actions.getText(match.selector);
+      console.log(`⚠️ Error message found: "${errorText}"`);
+      errorFound = true;
+    } catch (error) {
+      // No error element became visible
     }
 
     if (!errorFound) {
@@ -280,6 +243,8 @@ async function redditSignInAutomation() {
       console.log('ℹ️ Still on login page - credentials were likely rejected (expected for random credentials)');
     } else {
       console.log('✅ Navigated away from login page - sign-in might have been successful');
+      const sessionPath = await browser.saveSession();
+      console.log(`💾 Session saved to: ${sessionPath}`);
     }
 
     console.log('\n🎉 Reddit sign-in automation completed!');
@@ -288,16 +253,7 @@ async function redditSignInAutomation() {
 
   } catch (error) {
     console.error('❌ Reddit sign-in automation failed:', error);
-    
-    // Take error screenshot if actions is available
-    if (actions) {
-      try {
-        await actions.screenshot({ path: 'reddit-error.png' });
-        console.log('📸 Error screenshot taken');
-      } catch (screenshotError) {
-        console.log('Could not take error screenshot');
-      }
-    }
+    console.log(`📸 Failure screenshots and DOM snapshots are in ${browser.getTracer()?.getDir()}`);
   } finally {
     // Clean up
     console.log('\n⏳ Cleaning up in 5 seconds...');
@@ -0,0 +1,20 @@
+import { WorkflowRunner } from '../src/index';
+
+async function workflowDemo() {
+  const file = process.argv[2] || 'examples/workflows/hacker-news.yaml';
+  console.log(`📋 Running workflow: ${file}\n`);
+
+  const runner = new WorkflowRunner();
+  const result = await runner.run(file);
+
+  for (const step of result.steps) {
+    const icon = step.status === 'passed' ? '✅' : step.status === 'failed' ? '❌' : '⏭️';
+    console.log(`${icon} ${step.path} ${step.name || step.action} (${step.duration}ms)${step.error ? ' - ' + step.error : ''}`);
+  }
+
+  console.log(`\n${result.success ? '🎉 Workflow passed' : '💥 Workflow failed'} in ${result.duration}ms`);
+  console.log('📦 Variables:', JSON.stringify(result.variables.lastTitle));
+}
+
+// Run the workflow
+workflowDemo().catch(console.error);
@@ -1,7 +1,21 @@
-import { Browser, BrowserContext, Page, chromium, firefox, webkit } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Browser, BrowserContext, BrowserContextOptions, Page, chromium, firefox, webkit } from 'playwright';
+import { ContextPool, ContextPoolOptions } from './ContextPool';
+import { NetworkInterceptor, RouteRule } from './network/NetworkInterceptor';
+import { NavigationError, toAutomationError } from '../errors/AutomationError';
+import { AutomationEvents, Observers, bindObservers } from '../events/AutomationEvents';
+import { Logger, consoleLogger } from '../logging/Logger';
+import { TraceOptions, Tracer } from '../tracing/Tracer';
 
 export type BrowserType = 'chrome' | 'firefox' | 'safari';
 
+export interface NetworkConfig {
+  rules?: RouteRule[];                    // Routing rules registered on launch
+  archive?: string;                       // HAR archive used for record/replay
+  mode?: 'live' | 'record' | 'replay';    // What to do with the archive (default: 'live')
+}
+
 export interface BrowserConfig {
   type: BrowserType;
   headless?: boolean;
@@ -11,20 +25,35 @@ export interface BrowserConfig {
   };
   userAgent?: string;
   timeout?: number;
+  sessionFile?: string;     // Storage state file (cookies + localStorage) loaded on launch
+  sessionProfile?: string;  // Named session stored as <sessionDir>/<profile>.json
+  sessionDir?: string;      // Directory for named session profiles (default: '.sessions')
+  network?: NetworkConfig;  // Request interception and record/replay for the main context
+  logger?: Logger;          // Shared with BrowserActions created for this browser's pages (default: console)
+  events?: AutomationEvents; // Shared event emitter for actions, navigations and extraction
+  trace?: boolean | TraceOptions; // Record a trace bundle with failure artifacts for each launch
 }
 
 export class AutomationBrowser {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
+  private pools: ContextPool[] = [];
+  private network: NetworkInterceptor | null = null;
   private config: BrowserConfig;
+  private logger: Logger;
+  private events: AutomationEvents;
+  private tracer: Tracer | null = null;
 
   constructor(config: BrowserConfig) {
     this.config = {
       headless: false,
       viewport: { width: 1280, height: 720 },
       timeout: 30000,
+      sessionDir: '.sessions',
       ...config
     };
+    this.logger = config.logger || consoleLogger;
+    this.events = config.events || new AutomationEvents();
   }
 
   /**
@@ -51,10 +80,144 @@ export class AutomationBrowser {
     }
 
     // Create a new browser context
-    this.context = await this.browser.newContext({
+    this.context = await this.browser.newContext(this.getContextOptions(true));
+    this.context.setDefaultTimeout(this.config.timeout!);
+    if (this.config.trace) {
+      this.tracer = new Tracer(this.config.trace === true ? {} : this.config.trace);
+      await this.tracer.start(this.events, this.context);
+    }
+    bindObservers(this.context, this.getObservers());
+    await this.applyNetworkConfig();
+  }
+
+  /**
+   * Register the configured routing rules and archive on the main context
+   */
+  private async applyNetworkConfig(): Promise<void> {
+    const network = this.config.network;
+    if (!network) {
+      return;
+    }
+
+    const interceptor = this.getNetwork();
+    if (network.archive && network.mode === 'record') {
+      await interceptor.record(network.archive);
+    } else if (network.archive && network.mode === 'replay') {
+      await interceptor.replay(network.archive);
+    }
+    if (network.rules) {
+      await interceptor.addRules(network.rules);
+    }
+  }
+
+  /**
+   * Get the network interceptor for the main context. Rules apply to every page opened from it.
+   */
+  getNetwork(): NetworkInterceptor {
+    if (!this.context) {
+      throw new Error('Browser not launched. Call launch() first.');
+    }
+    if (!this.network) {
+      this.network = new NetworkInterceptor(this.context);
+    }
+    return this.network;
+  }
+
+  /**
+   * Options used for contexts created from this browser's configuration.
+   * The saved session is only loaded when `withSession` is set.
+   */
+  private getContextOptions(withSession: boolean): BrowserContextOptions {
+    const sessionPath = withSession ? this.getSessionPath() : null;
+    return {
       viewport: this.config.viewport,
-      userAgent: this.config.userAgent
+      userAgent: this.config.userAgent,
+      storageState: sessionPath && fs.existsSync(sessionPath) ? sessionPath : undefined
+    };
+  }
+
+  // ============ SESSION STATE ============
+
+  /**
+   * Resolve the session file for a profile, or for the configured session when no profile is given
+   */
+  getSessionPath(profile?: string): string | null {
+    if (profile) {
+      return this.profilePath(profile);
+    }
+    if (this.config.sessionFile) {
+      return this.config.sessionFile;
+    }
+    if (this.config.sessionProfile) {
+      return this.profilePath(this.config.sessionProfile);
+    }
+    return null;
+  }
+
+  /**
+   * Session file of a named profile. Names are plain file names so a profile
+   * cannot point outside the session directory.
+   */
+  private profilePath(profile: string): string {
+    if (/[\\/]/.test(profile) || profile.includes('..')) {
+      throw new Error(`Invalid session profile name "${profile}": path separators and ".." are not allowed`);
+    }
+    return path.join(this.config.sessionDir!, `${profile}.json`);
+  }
+
+  /**
+   * Check whether a saved session exists for a profile or the configured session
+   */
+  hasSession(profile?: string): boolean {
+    const sessionPath = this.getSessionPath(profile);
+    return sessionPath !== null && fs.existsSync(sessionPath);
+  }
+
+  /**
+   * Save the current cookies and storage to disk and return the file path
+   */
+  async saveSession(profile?: string): Promise<string> {
+    if (!this.context) {
+      throw new Error('Browser not launched. Call launch() first.');
+    }
+    const sessionPath = this.getSessionPath(profile);
+    if (!sessionPath) {
+      throw new Error('No session file configured. Set sessionFile or sessionProfile, or pass a profile name.');
+    }
+
+    fs.mkdirSync(path.dirname(sessionPath), { recursive: true });
+    await this.context.storageState({ path: sessionPath });
+    return sessionPath;
+  }
+
+  /**
+   * Delete a saved session from disk
+   */
+  deleteSession(profile?: string): void {
+    const sessionPath = this.getSessionPath(profile);
+    if (sessionPath && fs.existsSync(sessionPath)) {
+      fs.unlinkSync(sessionPath);
+    }
+  }
+
+  /**
+   * Create a pool of isolated contexts for running tasks in parallel.
+   * Pool contexts start without the saved session unless `useSession` is set.
+   * Pools are closed together with the browser.
+   */
+  createPool(options: ContextPoolOptions & { useSession?: boolean } = {}): ContextPool {
+    if (!this.browser) {
+      throw new Error('Browser not launched. Call launch() first.');
+    }
+    const { useSession = false, ...poolOptions } = options;
+    const pool = new ContextPool(this.browser, {
+      observers: this.getObservers(),
+      defaultTimeout: this.config.timeout,
+      ...poolOptions,
+      contextOptions: { ...this.getContextOptions(useSession), ...poolOptions.contextOptions }
     });
+    this.pools.push(pool);
+    return pool;
   }
 
   /**
@@ -68,11 +231,27 @@ export class AutomationBrowser {
   }
 
   /**
-   * Navigate to a URL
+   * Navigate to a URL in a new page. The page is closed if navigation fails.
    */
   async goto(url: string): Promise<Page> {
     const page = await this.newPage();
-    await page.goto(url);
+    const start = Date.now();
+    try {
+      await page.goto(url);
+    } catch (error) {
+      let failure = toAutomationError(error, { action: 'goto', url, elapsed: Date.now() - start });
+      // Any timeout while loading the document is a navigation problem
+      if (failure.kind === 'timeout' || failure.kind === 'unknown') {
+        const reason = (error instanceof Error ? error.message : String(error)).split('\n')[0];
+        failure = new NavigationError(reason, { action: 'goto', url, elapsed: failure.elapsed, cause: error });
+      }
+      await this.tracer?.captureFailure(page, 'goto', failure);
+      this.events.emit('navigation', { source: 'goto', url, duration: failure.elapsed, timestamp: start, error: failure });
+      // The caller never receives the page, so it cannot close it
+      await page.close().catch(() => undefined);
+      throw failure;
+    }
+    this.events.emit('navigation', { source: 'goto', url: page.url(), duration: Date.now() - start, timestamp: start });
     return page;
   }
 
@@ -80,9 +259,20 @@ export class AutomationBrowser {
    * Close the browser
    */
   async close(): Promise<void> {
+    for (const pool of this.pools.splice(0)) {
+      await pool.close();
+    }
+    if (this.tracer) {
+      // Stopped before the context closes so the Playwright trace can be saved
+      const dir = await this.tracer.stop();
+      this.logger.info(`Trace written to ${dir}`);
+      this.tracer = null;
+    }
     if (this.context) {
+      // Closing the context also writes any archive being recorded
       await this.context.close();
       this.context = null;
+      this.network = null;
     }
     if (this.browser) {
       await this.browser.close();
@@ -90,6 +280,34 @@ export class AutomationBrowser {
     }
   }
 
+  /**
+   * Observers bound to every context this browser creates
+   */
+  private getObservers(): Observers {
+    return { logger: this.logger, events: this.events, tracer: this.tracer || undefined };
+  }
+
+  /**
+   * Get the tracer of the current launch, if tracing is on
+   */
+  getTracer(): Tracer | null {
+    return this.tracer;
+  }
+
+  /**
+   * Get the logger shared with this browser's pages
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * Get the event emitter shared with this browser's pages
+   */
+  getEvents(): AutomationEvents {
+    return this.events;
+  }
+
   /**
    * Get the current browser instance
    */
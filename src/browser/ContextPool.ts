@@ -0,0 +1,179 @@
+import { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { Observers, bindObservers } from '../events/AutomationEvents';
+
+export interface ContextPoolOptions {
+  maxConcurrency?: number;      // Maximum number of leases out at the same time (default: 4)
+  reuseContexts?: boolean;      // Keep contexts for later leases instead of closing them (default: false)
+  maxPagesPerContext?: number;  // Recycle a reused context after this many pages (default: 20)
+  contextOptions?: BrowserContextOptions;
+  defaultTimeout?: number;      // Timeout for actions and navigations in pooled contexts (default: Playwright's)
+  observers?: Observers;        // Logger and events bound to every pooled context
+}
+
+export interface PoolLease {
+  context: BrowserContext;
+  page: Page;
+}
+
+interface PooledContext {
+  context: BrowserContext;
+  pagesOpened: number;
+}
+
+/**
+ * Leases isolated browser contexts and pages with a concurrency limit.
+ * Pages are always closed when a lease is released; contexts are closed too
+ * unless `reuseContexts` is set, in which case they are recycled after
+ * `maxPagesPerContext` pages.
+ */
+export class ContextPool {
+  private browser: Browser;
+  private options: Required<Omit<ContextPoolOptions, 'contextOptions' | 'defaultTimeout' | 'observers'>> &
+    Pick<ContextPoolOptions, 'defaultTimeout' | 'observers'> & { contextOptions: BrowserContextOptions };
+  private idle: PooledContext[] = [];
+  private leased = new Map<Page, PooledContext>();
+  private waiters: { resolve: () => void; reject: (error: Error) => void }[] = [];
+  private pending = 0;
+  private closed = false;
+
+  constructor(browser: Browser, options: ContextPoolOptions = {}) {
+    this.browser = browser;
+    this.options = {
+      maxConcurrency: 4,
+      reuseContexts: false,
+      maxPagesPerContext: 20,
+      contextOptions: {},
+      ...options
+    };
+  }
+
+  /**
+   * Lease a page, run the task with it and release it afterwards
+   */
+  async run<T>(task: (page: Page, context: BrowserContext) => Promise<T>): Promise<T> {
+    const lease = await this.acquire();
+    let failed = false;
+    try {
+      return await task(lease.page, lease.context);
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      // A context that saw a failure may be in a bad state, so never reuse it
+      await this.release(lease, { discard: failed });
+    }
+  }
+
+  /**
+   * Lease a page in an isolated context, waiting if the pool is at capacity
+   */
+  async acquire(): Promise<PoolLease> {
+    this.assertOpen();
+
+    while (this.leased.size + this.pending >= this.options.maxConcurrency) {
+      await new Promise<void>((resolve, reject) => this.waiters.push({ resolve, reject }));
+      this.assertOpen();
+    }
+
+    // Hold the slot while the context and page are being created
+    this.pending++;
+    try {
+      const pooled = this.idle.pop() || await this.createContext();
+      let page: Page;
+      try {
+        page = await pooled.context.newPage();
+        // close() may have run while the context or page was being created
+        this.assertOpen();
+      } catch (error) {
+        // A context that cannot open pages is of no use to later leases either
+        await pooled.context.close().catch(() => undefined);
+        throw error;
+      }
+      pooled.pagesOpened++;
+      this.leased.set(page, pooled);
+      return { context: pooled.context, page };
+    } catch (error) {
+      this.waiters.shift()?.resolve();
+      throw error;
+    } finally {
+      this.pending--;
+    }
+  }
+
+  /**
+   * Throw once the pool has been closed
+   */
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Error('Context pool is closed');
+    }
+  }
+
+  /**
+   * Create a fresh context with the pool's options and observers
+   */
+  private async createContext(): Promise<PooledContext> {
+    const context = await this.browser.newContext(this.options.contextOptions);
+    if (this.options.defaultTimeout !== undefined) {
+      context.setDefaultTimeout(this.options.defaultTimeout);
+    }
+    if (this.options.observers) {
+      bindObservers(context, this.options.observers);
+    }
+    return { context, pagesOpened: 0 };
+  }
+
+  /**
+   * Return a lease to the pool. Its page is closed; the context is kept only when
+   * reuse is enabled and it is under the page cap.
+   */
+  async release(lease: PoolLease, options: { discard?: boolean } = {}): Promise<void> {
+    const pooled = this.leased.get(lease.page);
+    if (!pooled) {
+      return;
+    }
+    this.leased.delete(lease.page);
+
+    await lease.page.close().catch(() => undefined);
+
+    const keep = !this.closed &&
+      !options.discard &&
+      this.options.reuseContexts &&
+      pooled.pagesOpened < this.options.maxPagesPerContext;
+
+    if (keep) {
+      this.idle.push(pooled);
+    } else {
+      await pooled.context.close().catch(() => undefined);
+    }
+
+    this.waiters.shift()?.resolve();
+  }
+
+  /**
+   * Number of leases currently out
+   */
+  get activeCount(): number {
+    return this.leased.size;
+  }
+
+  /**
+   * Close every context owned by the pool and reject pending acquires
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+
+    const contexts = new Set<BrowserContext>();
+    for (const pooled of [...this.idle, ...this.leased.values()]) {
+      contexts.add(pooled.context);
+    }
+    this.idle = [];
+    this.leased.clear();
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(new Error('Context pool is closed'));
+    }
+
+    await Promise.all(Array.from(contexts).map(context => context.close().catch(() => undefined)));
+  }
+}
@@ -1,7 +1,19 @@
 import { Page, Locator } from 'playwright';
-
-export interface ClickOptions {
+import { NetworkInterceptor } from '../network/NetworkInterceptor';
+import { SelectorNotFoundError, toAutomationError } from '../../errors/AutomationError';
+import { RetryPolicy, resolveRetryPolicy, withRetry } from '../../errors/RetryPolicy';
+import { AutomationEvents, observersFor } from '../../events/AutomationEvents';
+import { Logger, consoleLogger } from '../../logging/Logger';
+import { Tracer } from '../../tracing/Tracer';
+import { INDEX_ATTRIBUTE } from '../../dom/CompactDom';
+
+export interface ActionOptions {
   timeout?: number;
+  retry?: Partial<RetryPolicy>; // Overrides the instance retry policy for this call
+  expected?: boolean;           // The caller handles failure (e.g. an optional element): no failure artifacts, trace stays passed
+}
+
+export interface ClickOptions extends ActionOptions {
   force?: boolean;
   delay?: number;
   button?: 'left' | 'right' | 'middle';
@@ -9,19 +21,16 @@ export interface ClickOptions {
   position?: { x: number; y: number };
 }
 
-export interface TypeOptions {
+export interface TypeOptions extends ActionOptions {
   delay?: number;
-  timeout?: number;
   clear?: boolean;
 }
 
-export interface ScrollOptions {
+export interface ScrollOptions extends ActionOptions {
   behavior?: 'auto' | 'smooth';
-  timeout?: number;
 }
 
-export interface WaitOptions {
-  timeout?: number;
+export interface WaitOptions extends ActionOptions {
   state?: 'attached' | 'detached' | 'visible' | 'hidden';
 }
 
@@ -30,13 +39,207 @@ export interface ScreenshotOptions {
   fullPage?: boolean;
   quality?: number;
   type?: 'png' | 'jpeg';
+  timeout?: number;             // screenshotElement: how long to wait for the element
+}
+
+export interface BrowserActionsOptions {
+  retry?: Partial<RetryPolicy>; // Retry policy applied to every action of this instance
+  logger?: Logger;              // Defaults to the browser's logger, then the console
+  events?: AutomationEvents;    // Defaults to the browser's event emitter
+  tracer?: Tracer;              // Defaults to the browser's tracer when tracing is on
+}
+
+/**
+ * A single CSS selector, or an ordered list of candidate selectors to try in turn
+ */
+export type SelectorTarget = string | string[];
+
+export interface SelectorMatch {
+  selector: string;   // The candidate that matched
+  index: number;      // Position of the candidate in the fallback list
+  elapsed: number;    // Milliseconds spent resolving the candidates
+}
+
+interface ResolvedTarget {
+  locator: Locator;
+  timeout: number;    // Remaining budget for the action itself
+}
+
+/**
+ * Typed text may be a password, so listeners, logs and traces only see its length
+ */
+function redactArgs(action: string, args: Record<string, unknown>): Record<string, unknown> {
+  if (action === 'type' && typeof args.text === 'string') {
+    return { ...args, text: `[${args.text.length} characters]` };
+  }
+  return args;
 }
 
 export class BrowserActions {
   private page: Page;
-
-  constructor(page: Page) {
+  private lastMatch: SelectorMatch | null = null;
+  private network: NetworkInterceptor | null = null;
+  private retryPolicy: Partial<RetryPolicy>;
+  private logger: Logger;
+  private events: AutomationEvents;
+  private tracer?: Tracer;
+
+  constructor(page: Page, options: BrowserActionsOptions = {}) {
+    const observers = observersFor(page);
     this.page = page;
+    this.retryPolicy = options.retry || {};
+    this.logger = options.logger || observers.logger || consoleLogger;
+    this.events = options.events || observers.events || new AutomationEvents();
+    this.tracer = options.tracer || observers.tracer;
+  }
+
+  /**
+   * Set the retry policy used by every action of this instance
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = policy;
+  }
+
+  /**
+   * Get the event emitter that publishes this instance's action events
+   */
+  getEvents(): AutomationEvents {
+    return this.events;
+  }
+
+  /**
+   * Run an action under the retry policy, convert failures into typed SDK errors
+   * and publish its lifecycle events
+   */
+  private async perform<T>(
+    action: string,
+    args: Record<string, unknown>,
+    options: ActionOptions,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const policy = resolveRetryPolicy(this.retryPolicy, options.retry);
+    const selector = args.selector as SelectorTarget | undefined;
+    const start = Date.now();
+    const event = { action, args: redactArgs(action, args), url: this.page.url(), timestamp: start };
+
+    this.events.emit('action:start', event);
+    try {
+      const result = await withRetry(async () => {
+        try {
+          return await operation();
+        } catch (error) {
+          throw toAutomationError(error, { action, selector, url: this.page.url(), elapsed: Date.now() - start });
+        }
+      }, policy, (error, attempt, delay) => {
+        this.logger.debug(`Retrying ${action} after ${error.kind} (attempt ${attempt}, waiting ${delay}ms)`, { selector });
+      });
+
+      this.events.emit('action:end', { ...event, duration: Date.now() - start, result });
+      return result;
+    } catch (error) {
+      const duration = Date.now() - start;
+      if (!options.expected) {
+        await this.tracer?.captureFailure(this.page, action, error);
+      }
+      this.events.emit('action:error', { ...event, duration, error: error as Error, expected: options.expected });
+      throw error;
+    }
+  }
+
+  // ============ SELECTOR RESOLUTION ============
+
+  /**
+   * Find the first candidate selector that reaches the given state.
+   * Candidates are polled in order and share a single time budget.
+   */
+  async resolveSelector(target: SelectorTarget, options: WaitOptions = {}): Promise<SelectorMatch> {
+    return await this.findCandidate(target, options, 'resolveSelector');
+  }
+
+  /**
+   * Poll the candidates until one reaches the state; failures are reported under the calling action
+   */
+  private async findCandidate(target: SelectorTarget, options: WaitOptions, action: string): Promise<SelectorMatch> {
+    const selectors = typeof target === 'string' ? [target] : target;
+    const timeout = options.timeout || 30000;
+    const state = options.state || 'visible';
+    const start = Date.now();
+
+    if (selectors.length === 0) {
+      throw new Error('Selector list is empty');
+    }
+
+    while (true) {
+      for (let i = 0; i < selectors.length; i++) {
+        if (await this.isInState(selectors[i], state)) {
+          this.lastMatch = { selector: selectors[i], index: i, elapsed: Date.now() - start };
+          return this.lastMatch;
+        }
+      }
+
+      if (Date.now() - start >= timeout) {
+        throw new SelectorNotFoundError(`no candidate reached state "${state}" within ${timeout}ms`, {
+          action,
+          selector: target,
+          url: this.page.url(),
+          elapsed: Date.now() - start
+        });
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  /**
+   * Get the selector used by the most recent action, including plain string targets
+   */
+  getLastMatch(): SelectorMatch | null {
+    return this.lastMatch;
+  }
+
+  /**
+   * Check a selector against a wait state without waiting
+   */
+  private async isInState(selector: string, state: NonNullable<WaitOptions['state']>): Promise<boolean> {
+    const element = this.page.locator(selector).first();
+    try {
+      switch (state) {
+        case 'attached':
+          return (await element.count()) > 0;
+        case 'detached':
+          return (await element.count()) === 0;
+        case 'visible':
+          return await element.isVisible();
+        case 'hidden':
+          return !(await element.isVisible());
+      }
+    } catch (error) {
+      // Invalid selectors never match, so the next candidate gets a chance
+      return false;
+    }
+  }
+
+  /**
+   * Turn a selector target into a locator. A plain string is used as-is; a list is
+   * resolved first and the action receives whatever is left of the time budget.
+   */
+  private async locate(target: SelectorTarget, action: string, timeout: number = 30000): Promise<ResolvedTarget> {
+    if (typeof target === 'string') {
+      this.lastMatch = { selector: target, index: 0, elapsed: 0 };
+      return { locator: this.page.locator(target), timeout };
+    }
+
+    const match = await this.findCandidate(target, { timeout }, action);
+    return {
+      locator: this.page.locator(match.selector),
+      timeout: Math.max(timeout - match.elapsed, 1)
+    };
+  }
+
+  /**
+   * Selector for an element indexed by DomExtractor.extractCompact
+   */
+  private indexSelector(index: number): string {
+    return `[${INDEX_ATTRIBUTE}="${index}"]`;
   }
 
   // ============ CLICKING ACTIONS ============
@@ -44,44 +247,49 @@ export class BrowserActions {
   /**
    * Click on an element by selector
    */
-  async click(selector: string, options: ClickOptions = {}): Promise<void> {
-    const element = this.page.locator(selector);
-    await element.click({
-      timeout: options.timeout || 30000,
-      force: options.force || false,
-      delay: options.delay || 0,
-      button: options.button || 'left',
-      clickCount: options.clickCount || 1,
-      position: options.position
+  async click(selector: SelectorTarget, options: ClickOptions = {}): Promise<void> {
+    await this.perform('click', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'click', options.timeout);
+      await element.click({
+        timeout,
+        force: options.force || false,
+        delay: options.delay || 0,
+        button: options.button || 'left',
+        clickCount: options.clickCount || 1,
+        position: options.position
+      });
     });
   }
 
   /**
    * Click on the first element matching the selector (useful when multiple elements match)
    */
-  async clickFirst(selector: string, options: ClickOptions = {}): Promise<void> {
-    const element = this.page.locator(selector).first();
-    await element.click({
-      timeout: options.timeout || 30000,
-      force: options.force || false,
-      delay: options.delay || 0,
-      button: options.button || 'left',
-      clickCount: options.clickCount || 1,
-      position: options.position
+  async clickFirst(selector: SelectorTarget, options: ClickOptions = {}): Promise<void> {
+    await this.perform('clickFirst', { selector }, options, async () => {
+      const { locator, timeout } = await this.locate(selector, 'clickFirst', options.timeout);
+      const element = locator.first();
+      await element.click({
+        timeout,
+        force: options.force || false,
+        delay: options.delay || 0,
+        button: options.button || 'left',
+        clickCount: options.clickCount || 1,
+        position: options.position
+      });
     });
   }
 
   /**
    * Double click on an element
    */
-  async doubleClick(selector: string, options: ClickOptions = {}): Promise<void> {
+  async doubleClick(selector: SelectorTarget, options: ClickOptions = {}): Promise<void> {
     await this.click(selector, { ...options, clickCount: 2 });
   }
 
   /**
    * Right click on an element
    */
-  async rightClick(selector: string, options: ClickOptions = {}): Promise<void> {
+  async rightClick(selector: SelectorTarget, options: ClickOptions = {}): Promise<void> {
     await this.click(selector, { ...options, button: 'right' });
   }
 
@@ -89,45 +297,58 @@ export class BrowserActions {
    * Click at specific coordinates
    */
   async clickAt(x: number, y: number, options: ClickOptions = {}): Promise<void> {
-    await this.page.mouse.click(x, y, {
-      delay: options.delay || 0,
-      button: options.button || 'left',
-      clickCount: options.clickCount || 1
+    await this.perform('clickAt', { x, y }, options, async () => {
+      await this.page.mouse.click(x, y, {
+        delay: options.delay || 0,
+        button: options.button || 'left',
+        clickCount: options.clickCount || 1
+      });
     });
   }
 
+  /**
+   * Click an element by its index from DomExtractor.extractCompact
+   */
+  async clickIndex(index: number, options: ClickOptions = {}): Promise<void> {
+    await this.click(this.indexSelector(index), options);
+  }
+
   // ============ TYPING ACTIONS ============
 
   /**
    * Type text into an element
    */
-  async type(selector: string, text: string, options: TypeOptions = {}): Promise<void> {
-    const element = this.page.locator(selector);
-    
-    if (options.clear) {
-      await element.clear();
-    }
-    
-    await element.fill(text);
-    
-    if (options.delay) {
-      await element.type(text, { delay: options.delay });
-    }
+  async type(selector: SelectorTarget, text: string, options: TypeOptions = {}): Promise<void> {
+    await this.perform('type', { selector, text }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'type', options.timeout);
+
+      if (options.clear) {
+        await element.clear({ timeout });
+      }
+
+      await element.fill(text, { timeout });
+
+      if (options.delay) {
+        await element.type(text, { delay: options.delay, timeout });
+      }
+    });
   }
 
   /**
    * Clear text from an input field
    */
-  async clear(selector: string): Promise<void> {
-    const element = this.page.locator(selector);
-    await element.clear();
+  async clear(selector: SelectorTarget, options: ActionOptions = {}): Promise<void> {
+    await this.perform('clear', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'clear', options.timeout);
+      await element.clear({ timeout });
+    });
   }
 
   /**
    * Press a key or key combination
    */
   async press(key: string): Promise<void> {
-    await this.page.keyboard.press(key);
+    await this.perform('press', { key }, {}, () => this.page.keyboard.press(key));
   }
 
   /**
@@ -135,45 +356,60 @@ export class BrowserActions {
    */
   async pressSequence(keys: string[]): Promise<void> {
     for (const key of keys) {
-      await this.page.keyboard.press(key);
+      await this.press(key);
     }
   }
 
+  /**
+   * Type into an element by its index from DomExtractor.extractCompact
+   */
+  async typeIndex(index: number, text: string, options: TypeOptions = {}): Promise<void> {
+    await this.type(this.indexSelector(index), text, options);
+  }
+
   // ============ SCROLLING ACTIONS ============
 
   /**
    * Scroll to an element
    */
-  async scrollToElement(selector: string, options: ScrollOptions = {}): Promise<void> {
-    const element = this.page.locator(selector);
-    await element.scrollIntoViewIfNeeded({ timeout: options.timeout || 30000 });
+  async scrollToElement(selector: SelectorTarget, options: ScrollOptions = {}): Promise<void> {
+    await this.perform('scrollToElement', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'scrollToElement', options.timeout);
+      await element.scrollIntoViewIfNeeded({ timeout });
+    });
   }
 
   /**
    * Scroll by pixels
    */
   async scrollBy(x: number, y: number, options: ScrollOptions = {}): Promise<void> {
-    await this.page.evaluate(({ x, y, behavior }) => {
-      window.scrollBy({ left: x, top: y, behavior });
-    }, { x, y, behavior: options.behavior || 'auto' });
+    await this.perform('scrollBy', { x, y }, options, async () => {
+      await this.page.evaluate(({ x, y, behavior }) => {
+        window.scrollBy({ left: x, top: y, behavior });
+      }, { x, y, behavior: options.behavior || 'auto' });
+    });
   }
 
   /**
    * Scroll to top of page
    */
   async scrollToTop(options: ScrollOptions = {}): Promise<void> {
-    await this.page.evaluate((behavior) => {
-      window.scrollTo({ top: 0, behavior });
-    }, options.behavior || 'auto');
+    await this.perform('scrollToTop', {}, options, async () => {
+      await this.page.evaluate((behavior) => {
+        window.scrollTo({ top: 0, behavior });
+      }, options.behavior || 'auto');
+    });
   }
 
   /**
    * Scroll to bottom of page
    */
   async scrollToBottom(options: ScrollOptions = {}): Promise<void> {
-    await this.page.evaluate((behavior) => {
-      window.scrollTo({ top: document.body.scrollHeight, behavior });
-    }, options.behavior || 'auto');
+    await this.perform('scrollToBottom', {}, options, async () => {
+      await this.page.evaluate((behavior) => {
+        window.scrollTo({ top: document.body.scrollHeight, behavior });
+      }, options.behavior || 'auto');
+    });
   }
 
   // ============ HOVER ACTIONS ============
@@ -181,9 +417,18 @@ export class BrowserActions {
   /**
    * Hover over an element
    */
-  async hover(selector: string, options: { timeout?: number } = {}): Promise<void> {
-    const element = this.page.locator(selector);
-    await element.hover({ timeout: options.timeout || 30000 });
+  async hover(selector: SelectorTarget, options: ActionOptions = {}): Promise<void> {
+    await this.perform('hover', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'hover', options.timeout);
+      await element.hover({ timeout });
+    });
+  }
+
+  /**
+   * Hover an element by its index from DomExtractor.extractCompact
+   */
+  async hoverIndex(index: number, options: ActionOptions = {}): Promise<void> {
+    await this.hover(this.indexSelector(index), options);
   }
 
   // ============ FORM ACTIONS ============
@@ -191,44 +436,61 @@ export class BrowserActions {
   /**
    * Select option from dropdown by value
    */
-  async selectOption(selector: string, value: string | string[]): Promise<void> {
-    const element = this.page.locator(selector);
-    await element.selectOption(value);
+  async selectOption(selector: SelectorTarget, value: string | string[], options: ActionOptions = {}): Promise<void> {
+    await this.perform('selectOption', { selector, value }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'selectOption', options.timeout);
+      await element.selectOption(value, { timeout });
+    });
   }
 
   /**
    * Check a checkbox or radio button
    */
-  async check(selector: string): Promise<void> {
-    const element = this.page.locator(selector);
-    await element.check();
+  async check(selector: SelectorTarget, options: ActionOptions = {}): Promise<void> {
+    await this.perform('check', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'check', options.timeout);
+      await element.check({ timeout });
+    });
   }
 
   /**
    * Uncheck a checkbox
    */
-  async uncheck(selector: string): Promise<void> {
-    const element = this.page.locator(selector);
-    await element.uncheck();
+  async uncheck(selector: SelectorTarget, options: ActionOptions = {}): Promise<void> {
+    await this.perform('uncheck', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'uncheck', options.timeout);
+      await element.uncheck({ timeout });
+    });
   }
 
   /**
    * Upload a file
    */
-  async uploadFile(selector: string, filePath: string | string[]): Promise<void> {
-    const element = this.page.locator(selector);
-    await element.setInputFiles(filePath);
+  async uploadFile(selector: SelectorTarget, filePath: string | string[], options: ActionOptions = {}): Promise<void> {
+    await this.perform('uploadFile', { selector, filePath }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'uploadFile', options.timeout);
+      await element.setInputFiles(filePath, { timeout });
+    });
   }
 
   // ============ WAITING ACTIONS ============
 
   /**
-   * Wait for an element to be visible
+   * Wait for an element to be visible. With a list of selectors, resolves as soon
+   * as any candidate reaches the requested state and returns the match.
    */
-  async waitForElement(selector: string, options: WaitOptions = {}): Promise<void> {
-    await this.page.waitForSelector(selector, {
-      timeout: options.timeout || 30000,
-      state: options.state || 'visible'
+  async waitForElement(selector: SelectorTarget, options: WaitOptions = {}): Promise<SelectorMatch> {
+    return await this.perform('waitForElement', { selector }, options, async () => {
+      if (Array.isArray(selector)) {
+        return await this.findCandidate(selector, options, 'waitForElement');
+      }
+
+      const start = Date.now();
+      await this.page.waitForSelector(selector, {
+        timeout: options.timeout || 30000,
+        state: options.state || 'visible'
+      });
+      return { selector, index: 0, elapsed: Date.now() - start };
     });
   }
 
@@ -236,11 +498,13 @@ export class BrowserActions {
    * Wait for text to appear on page
    */
   async waitForText(text: string, options: WaitOptions = {}): Promise<void> {
-    await this.page.waitForFunction(
-      (text) => document.body.innerText.includes(text),
-      text,
-      { timeout: options.timeout || 30000 }
-    );
+    await this.perform('waitForText', { text }, options, async () => {
+      await this.page.waitForFunction(
+        (text) => document.body.innerText.includes(text),
+        text,
+        { timeout: options.timeout || 30000 }
+      );
+    });
   }
 
   /**
@@ -254,30 +518,58 @@ export class BrowserActions {
    * Wait for page to load completely
    */
   async waitForLoad(timeout: number = 60000): Promise<void> {
-    await this.page.waitForLoadState('networkidle', { timeout });
+    await this.perform('waitForLoad', { timeout }, {}, async () => {
+      await this.page.waitForLoadState('networkidle', { timeout });
+    });
   }
 
   // ============ NAVIGATION ACTIONS ============
 
+  /**
+   * Navigate the page to a URL
+   */
+  async goto(url: string, options: ActionOptions = {}): Promise<void> {
+    await this.navigate('goto', options, () => this.page.goto(url, { timeout: options.timeout }), { url });
+  }
+
   /**
    * Go back in browser history
    */
-  async goBack(): Promise<void> {
-    await this.page.goBack();
+  async goBack(options: ActionOptions = {}): Promise<void> {
+    await this.navigate('goBack', options, () => this.page.goBack({ timeout: options.timeout }));
   }
 
   /**
    * Go forward in browser history
    */
-  async goForward(): Promise<void> {
-    await this.page.goForward();
+  async goForward(options: ActionOptions = {}): Promise<void> {
+    await this.navigate('goForward', options, () => this.page.goForward({ timeout: options.timeout }));
   }
 
   /**
    * Refresh the page
    */
-  async refresh(): Promise<void> {
-    await this.page.reload();
+  async refresh(options: ActionOptions = {}): Promise<void> {
+    await this.navigate('refresh', options, () => this.page.reload({ timeout: options.timeout }));
+  }
+
+  /**
+   * Run a history navigation as an action and publish a navigation event for it
+   */
+  private async navigate(
+    source: string,
+    options: ActionOptions,
+    operation: () => Promise<unknown>,
+    args: Record<string, unknown> = {}
+  ): Promise<void> {
+    const start = Date.now();
+    try {
+      await this.perform(source, args, options, operation);
+      this.events.emit('navigation', { source, url: this.page.url(), duration: Date.now() - start, timestamp: start });
+    } catch (error) {
+      this.events.emit('navigation', { source, url: this.page.url(), duration: Date.now() - start, timestamp: start, error: error as Error });
+      throw error;
+    }
   }
 
   // ============ SCREENSHOT ACTIONS ============
@@ -286,23 +578,27 @@ export class BrowserActions {
    * Take a screenshot of the page
    */
   async screenshot(options: ScreenshotOptions = {}): Promise<Buffer> {
-    return await this.page.screenshot({
-      path: options.path,
-      fullPage: options.fullPage || false,
-      quality: options.quality,
-      type: options.type || 'png'
+    return await this.perform('screenshot', { path: options.path, fullPage: options.fullPage }, {}, async () => {
+      return await this.page.screenshot({
+        path: options.path,
+        fullPage: options.fullPage || false,
+        quality: options.quality,
+        type: options.type || 'png'
+      });
     });
   }
 
   /**
    * Take a screenshot of a specific element
    */
-  async screenshotElement(selector: string, options: ScreenshotOptions = {}): Promise<Buffer> {
-    const element = this.page.locator(selector);
-    return await element.screenshot({
-      path: options.path,
-      quality: options.quality,
-      type: options.type || 'png'
+  async screenshotElement(selector: SelectorTarget, options: ScreenshotOptions = {}): Promise<Buffer> {
+    return await this.perform('screenshotElement', { selector }, { timeout: options.timeout }, async () => {
+      const { locator: element } = await this.locate(selector, 'screenshotElement', options.timeout);
+      return await element.screenshot({
+        path: options.path,
+        quality: options.quality,
+        type: options.type || 'png'
+      });
     });
   }
 
@@ -311,10 +607,12 @@ export class BrowserActions {
   /**
    * Drag and drop from source to target
    */
-  async dragAndDrop(sourceSelector: string, targetSelector: string): Promise<void> {
-    const source = this.page.locator(sourceSelector);
-    const target = this.page.locator(targetSelector);
-    await source.dragTo(target);
+  async dragAndDrop(sourceSelector: SelectorTarget, targetSelector: SelectorTarget, options: ActionOptions = {}): Promise<void> {
+    await this.perform('dragAndDrop', { selector: sourceSelector, targetSelector }, options, async () => {
+      const { locator: source, timeout } = await this.locate(sourceSelector, 'dragAndDrop', options.timeout);
+      const { locator: target } = await this.locate(targetSelector, 'dragAndDrop', timeout);
+      await source.dragTo(target, { timeout });
+    });
   }
 
   // ============ INFORMATION GATHERING ============
@@ -322,57 +620,85 @@ export class BrowserActions {
   /**
    * Get text content of an element
    */
-  async getText(selector: string): Promise<string | null> {
-    const element = this.page.locator(selector);
-    return await element.textContent();
+  async getText(selector: SelectorTarget, options: ActionOptions = {}): Promise<string | null> {
+    return await this.perform('getText', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'getText', options.timeout);
+      return await element.textContent({ timeout });
+    });
   }
 
   /**
    * Get attribute value of an element
    */
-  async getAttribute(selector: string, attribute: string): Promise<string | null> {
-    const element = this.page.locator(selector);
-    return await element.getAttribute(attribute);
+  async getAttribute(selector: SelectorTarget, attribute: string, options: ActionOptions = {}): Promise<string | null> {
+    return await this.perform('getAttribute', { selector, attribute }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'getAttribute', options.timeout);
+      return await element.getAttribute(attribute, { timeout });
+    });
   }
 
   /**
    * Get value of an input element
    */
-  async getValue(selector: string): Promise<string> {
-    const element = this.page.locator(selector);
-    return await element.inputValue();
+  async getValue(selector: SelectorTarget, options: ActionOptions = {}): Promise<string> {
+    return await this.perform('getValue', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'getValue', options.timeout);
+      return await element.inputValue({ timeout });
+    });
   }
 
   /**
-   * Check if element is visible
+   * Check if element is visible. With a list of selectors, true if any candidate is visible.
    */
-  async isVisible(selector: string): Promise<boolean> {
-    const element = this.page.locator(selector);
-    return await element.isVisible();
+  async isVisible(selector: SelectorTarget): Promise<boolean> {
+    return await this.perform('isVisible', { selector }, { retry: { retries: 0 } }, async () => {
+      const selectors = typeof selector === 'string' ? [selector] : selector;
+      for (let i = 0; i < selectors.length; i++) {
+        if (await this.page.locator(selectors[i]).isVisible()) {
+          this.lastMatch = { selector: selectors[i], index: i, elapsed: 0 };
+          return true;
+        }
+      }
+      return false;
+    });
   }
 
   /**
    * Check if element is enabled
    */
-  async isEnabled(selector: string): Promise<boolean> {
-    const element = this.page.locator(selector);
-    return await element.isEnabled();
+  async isEnabled(selector: SelectorTarget, options: ActionOptions = {}): Promise<boolean> {
+    return await this.perform('isEnabled', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'isEnabled', options.timeout);
+      return await element.isEnabled({ timeout });
+    });
   }
 
   /**
    * Check if checkbox/radio is checked
    */
-  async isChecked(selector: string): Promise<boolean> {
-    const element = this.page.locator(selector);
-    return await element.isChecked();
+  async isChecked(selector: SelectorTarget, options: ActionOptions = {}): Promise<boolean> {
+    return await this.perform('isChecked', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'isChecked', options.timeout);
+      return await element.isChecked({ timeout });
+    });
   }
 
   /**
-   * Get count of elements matching selector
+   * Get count of elements matching selector. With a list of selectors, counts the
+   * first candidate that matches anything.
    */
-  async getElementCount(selector: string): Promise<number> {
-    const elements = this.page.locator(selector);
-    return await elements.count();
+  async getElementCount(selector: SelectorTarget): Promise<number> {
+    return await this.perform('getElementCount', { selector }, { retry: { retries: 0 } }, async () => {
+      const selectors = typeof selector === 'string' ? [selector] : selector;
+      for (let i = 0; i < selectors.length; i++) {
+        const count = await this.page.locator(selectors[i]).count();
+        if (count > 0) {
+          this.lastMatch = { selector: selectors[i], index: i, elapsed: 0 };
+          return count;
+        }
+      }
+      return 0;
+    });
   }
 
   // ============ ADVANCED ACTIONS ============
@@ -381,22 +707,38 @@ export class BrowserActions {
    * Execute custom JavaScript on the page
    */
   async executeScript<T = any>(script: string | Function, ...args: any[]): Promise<T> {
-    return await this.page.evaluate(script as any, ...args);
+    return await this.perform('executeScript', { args }, { retry: { retries: 0 } }, async () => {
+      return await this.page.evaluate(script as any, ...args);
+    });
+  }
+
+  /**
+   * Get the network interceptor for this page. Rules only apply to this page.
+   */
+  getNetwork(): NetworkInterceptor {
+    if (!this.network) {
+      this.network = new NetworkInterceptor(this.page);
+    }
+    return this.network;
   }
 
   /**
    * Focus on an element
    */
-  async focus(selector: string): Promise<void> {
-    const element = this.page.locator(selector);
-    await element.focus();
+  async focus(selector: SelectorTarget, options: ActionOptions = {}): Promise<void> {
+    await this.perform('focus', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'focus', options.timeout);
+      await element.focus({ timeout });
+    });
   }
 
   /**
    * Blur (unfocus) an element
    */
-  async blur(selector: string): Promise<void> {
-    const element = this.page.locator(selector);
-    await element.blur();
+  async blur(selector: SelectorTarget, options: ActionOptions = {}): Promise<void> {
+    await this.perform('blur', { selector }, options, async () => {
+      const { locator: element, timeout } = await this.locate(selector, 'blur', options.timeout);
+      await element.blur({ timeout });
+    });
   }
-} 
\ No newline at end of file
+}
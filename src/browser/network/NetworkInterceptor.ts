@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import { BrowserContext, Page, Request, Route } from 'playwright';
+
+export type UrlMatcher = string | RegExp; // Glob pattern or regular expression, as accepted by Playwright routes
+
+export type RouteAction =
+  | { type: 'block' }
+  | {
+      type: 'fulfill';
+      status?: number;
+      headers?: Record<string, string>;
+      contentType?: string;
+      body?: string;          // Inline response body
+      json?: any;             // Serialized as the response body
+      fixture?: string;       // Path to a file served as the response body
+    }
+  | { type: 'modifyHeaders'; set?: Record<string, string>; remove?: string[] }
+  | { type: 'delay'; ms: number };
+
+export interface RouteRule {
+  url: UrlMatcher;
+  action: RouteAction;
+  method?: string;            // Only match this HTTP method
+  resourceTypes?: string[];   // Only match these resource types (e.g. 'image', 'xhr')
+}
+
+export interface ArchiveOptions {
+  url?: UrlMatcher;           // Only record/replay matching requests
+  fallback?: boolean;         // Replay: send requests missing from the archive to the network (default: false)
+}
+
+/**
+ * Registers request routing rules on a page or a whole browser context.
+ * Rules added later are consulted first; rules that do not fully handle a
+ * request (delays, header changes, non-matching filters) pass it on to earlier
+ * rules and finally to the network.
+ */
+export class NetworkInterceptor {
+  private target: Page | BrowserContext;
+  private handlers: { url: UrlMatcher; handler: (route: Route, request: Request) => Promise<void> }[] = [];
+
+  constructor(target: Page | BrowserContext) {
+    this.target = target;
+  }
+
+  // ============ ROUTE RULES ============
+
+  /**
+   * Register a routing rule
+   */
+  async addRule(rule: RouteRule): Promise<void> {
+    const handler = async (route: Route, request: Request) => {
+      if (rule.method && request.method().toUpperCase() !== rule.method.toUpperCase()) {
+        return route.fallback();
+      }
+      if (rule.resourceTypes && !rule.resourceTypes.includes(request.resourceType())) {
+        return route.fallback();
+      }
+      await this.handle(route, request, rule.action);
+    };
+
+    this.handlers.push({ url: rule.url, handler });
+    await this.target.route(rule.url, handler);
+  }
+
+  /**
+   * Register several routing rules in order
+   */
+  async addRules(rules: RouteRule[]): Promise<void> {
+    for (const rule of rules) {
+      await this.addRule(rule);
+    }
+  }
+
+  /**
+   * Abort matching requests
+   */
+  async block(url: UrlMatcher, resourceTypes?: string[]): Promise<void> {
+    await this.addRule({ url, resourceTypes, action: { type: 'block' } });
+  }
+
+  /**
+   * Answer matching requests with a fixed response instead of hitting the network
+   */
+  async fulfill(url: UrlMatcher, response: Omit<Extract<RouteAction, { type: 'fulfill' }>, 'type'>): Promise<void> {
+    await this.addRule({ url, action: { type: 'fulfill', ...response } });
+  }
+
+  /**
+   * Set or remove request headers on matching requests
+   */
+  async modifyHeaders(url: UrlMatcher, set: Record<string, string> = {}, remove: string[] = []): Promise<void> {
+    await this.addRule({ url, action: { type: 'modifyHeaders', set, remove } });
+  }
+
+  /**
+   * Hold matching requests for a number of milliseconds before sending them on
+   */
+  async delay(url: UrlMatcher, ms: number): Promise<void> {
+    await this.addRule({ url, action: { type: 'delay', ms } });
+  }
+
+  /**
+   * Remove every rule registered through this interceptor
+   */
+  async clear(): Promise<void> {
+    for (const { url, handler } of this.handlers.splice(0)) {
+      await this.target.unroute(url, handler);
+    }
+  }
+
+  /**
+   * Carry out a rule's action for one request
+   */
+  private async handle(route: Route, request: Request, action: RouteAction): Promise<void> {
+    switch (action.type) {
+      case 'block':
+        await route.abort('blockedbyclient');
+        break;
+
+      case 'fulfill':
+        await route.fulfill({
+          status: action.status || 200,
+          headers: action.headers,
+          contentType: action.contentType,
+          body: action.fixture ? fs.readFileSync(action.fixture) : action.body,
+          json: action.json
+        });
+        break;
+
+      case 'modifyHeaders': {
+        // request.headers() has lowercase names, so match them case-insensitively
+        const headers = request.headers();
+        for (const [name, value] of Object.entries(action.set || {})) {
+          headers[name.toLowerCase()] = value;
+        }
+        for (const name of action.remove || []) {
+          delete headers[name.toLowerCase()];
+        }
+        await route.fallback({ headers });
+        break;
+      }
+
+      case 'delay':
+        await new Promise(resolve => setTimeout(resolve, action.ms));
+        await route.fallback();
+        break;
+    }
+  }
+
+  // ============ RECORD AND REPLAY ============
+
+  /**
+   * Record matching traffic into a HAR archive. The archive is written when the
+   * browser context is closed.
+   */
+  async record(archivePath: string, options: ArchiveOptions = {}): Promise<void> {
+    await this.target.routeFromHAR(archivePath, {
+      update: true,
+      updateContent: 'embed',
+      url: options.url
+    });
+  }
+
+  /**
+   * Serve matching requests from a previously recorded HAR archive.
+   * Requests missing from the archive are aborted unless `fallback` is set.
+   */
+  async replay(archivePath: string, options: ArchiveOptions = {}): Promise<void> {
+    if (!fs.existsSync(archivePath)) {
+      throw new Error(`Network archive not found: ${archivePath}`);
+    }
+    await this.target.routeFromHAR(archivePath, {
+      notFound: options.fallback ? 'fallback' : 'abort',
+      url: options.url
+    });
+  }
+}
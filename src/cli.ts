@@ -0,0 +1,301 @@
+#!/usr/bin/env node
+// Command-line interface for automation-ts-sdk
+
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { Page } from 'playwright';
+import { AutomationBrowser, BrowserConfig, BrowserType } from './browser/AutomationBrowser';
+import { BrowserActions } from './browser/actions/BrowserActions';
+import { DataExtractor, ExtractionRule } from './dom/DataExtractor';
+import { DomExtractor } from './dom/DomExtractor';
+import { ExportFormat, exportData, formatForPath, writeExport } from './export/Exporters';
+import { WorkflowRunner } from './workflow/WorkflowRunner';
+import { loadWorkflow } from './workflow/Workflow';
+
+const USAGE = `Usage: automation-sdk <command> [options]
+
+Commands:
+  extract <url>        Extract data with DataExtractor
+    --rules <file>       JSON file with extraction rules (default: common page data)
+    --format <format>    json | csv | ndjson | markdown (default: from --output extension, else json)
+    --columns <list>     Comma-separated columns for csv, ndjson and markdown
+    --append             Add to the --output file instead of replacing it
+  dom <url>            Extract the DOM tree with DomExtractor
+    --selector <css>     Only extract this element's subtree
+    --format <format>    text | json | compact | accessibility (default: text)
+    --max-depth <n>      Maximum tree depth
+  screenshot <url>     Take a screenshot with BrowserActions
+    --full-page          Capture the full scrollable page
+    --selector <css>     Capture a single element
+  run <workflow>       Run a JSON or YAML workflow file
+
+Browser options:
+  --browser <type>       chrome | firefox | safari (default: chrome)
+  --headed               Show the browser window (default: headless)
+  --viewport <WxH>       Viewport size, e.g. 1280x720
+  --timeout <ms>         Timeout for navigation, waits and extraction in milliseconds
+  --user-agent <ua>      Custom user agent
+  --session <profile>    Load a saved session profile
+  --trace                Write a trace bundle with failure artifacts to .traces/
+
+Output:
+  -o, --output <file>    Write to a file instead of stdout (screenshot default: screenshot.png)
+  -h, --help             Show this help
+`;
+
+const OPTIONS = {
+  rules: { type: 'string' },
+  columns: { type: 'string' },
+  append: { type: 'boolean' },
+  format: { type: 'string' },
+  selector: { type: 'string' },
+  'max-depth': { type: 'string' },
+  'full-page': { type: 'boolean' },
+  browser: { type: 'string' },
+  headed: { type: 'boolean' },
+  viewport: { type: 'string' },
+  timeout: { type: 'string' },
+  'user-agent': { type: 'string' },
+  session: { type: 'string' },
+  trace: { type: 'boolean' },
+  output: { type: 'string', short: 'o' },
+  help: { type: 'boolean', short: 'h' }
+} as const;
+
+type CliFlags = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+class UsageError extends Error {}
+
+/**
+ * Errors util.parseArgs throws for unknown or malformed flags
+ */
+function isParseArgsError(error: unknown): error is NodeJS.ErrnoException {
+  return error instanceof Error &&
+    typeof (error as NodeJS.ErrnoException).code === 'string' &&
+    (error as NodeJS.ErrnoException).code!.startsWith('ERR_PARSE_ARGS');
+}
+
+/**
+ * Map the shared browser flags onto a BrowserConfig
+ */
+function browserConfigFromFlags(flags: CliFlags): Partial<BrowserConfig> {
+  const config: Partial<BrowserConfig> = {};
+
+  if (flags.browser) {
+    if (!['chrome', 'firefox', 'safari'].includes(flags.browser)) {
+      throw new UsageError(`Unknown browser "${flags.browser}"`);
+    }
+    config.type = flags.browser as BrowserType;
+  }
+  if (flags.headed) {
+    config.headless = false;
+  }
+  if (flags.viewport) {
+    const match = flags.viewport.match(/^(\d+)x(\d+)$/);
+    if (!match) {
+      throw new UsageError(`Invalid viewport "${flags.viewport}", expected WIDTHxHEIGHT`);
+    }
+    config.viewport = { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+  }
+  if (flags.timeout) {
+    config.timeout = parseNumber(flags.timeout, '--timeout');
+  }
+  if (flags['user-agent']) {
+    config.userAgent = flags['user-agent'];
+  }
+  if (flags.session) {
+    config.sessionProfile = flags.session;
+  }
+  if (flags.trace) {
+    config.trace = true;
+  }
+  return config;
+}
+
+function parseNumber(value: string, flag: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new UsageError(`${flag} expects a number`);
+  }
+  return number;
+}
+
+function requireArgument(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new UsageError(`Missing <${name}> argument`);
+  }
+  return value;
+}
+
+/**
+ * Write command output to the --output file or stdout
+ */
+function writeOutput(content: string, flags: CliFlags): void {
+  if (flags.output) {
+    fs.writeFileSync(flags.output, content, 'utf8');
+    console.error(`Saved to ${flags.output}`);
+  } else {
+    process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+  }
+}
+
+/**
+ * Launch a browser from the flags, open the URL and run the task
+ */
+async function withPage<T>(url: string, flags: CliFlags, task: (page: Page) => Promise<T>): Promise<T> {
+  const browser = new AutomationBrowser({ type: 'chrome', headless: true, ...browserConfigFromFlags(flags) });
+  await browser.launch();
+  try {
+    const page = await browser.goto(url);
+    return await task(page);
+  } finally {
+    await browser.close();
+  }
+}
+
+// ============ COMMANDS ============
+
+async function extractCommand(url: string, flags: CliFlags): Promise<number> {
+  const format = flags.format || (flags.output ? formatForPath(flags.output) : 'json');
+  if (!['json', 'csv', 'ndjson', 'markdown'].includes(format)) {
+    throw new UsageError(`Unknown format "${format}" for extract`);
+  }
+  if (flags.append && !flags.output) {
+    throw new UsageError('--append needs --output');
+  }
+  const rules: ExtractionRule[] | null = flags.rules ? JSON.parse(fs.readFileSync(flags.rules, 'utf8')) : null;
+  const timeout = flags.timeout ? parseNumber(flags.timeout, '--timeout') : undefined;
+
+  const data = await withPage(url, flags, async page => {
+    const extractor = new DataExtractor(page);
+    return rules
+      ? await extractor.extractData(rules, { timeout })
+      : await extractor.extractCommonData({ timeout });
+  });
+
+  const exportOptions = {
+    format: format as ExportFormat,
+    columns: flags.columns ? flags.columns.split(',').map(column => column.trim()) : undefined,
+    append: flags.append
+  };
+  if (flags.output) {
+    writeExport(data, flags.output, exportOptions);
+    console.error(`Saved to ${flags.output}`);
+  } else {
+    writeOutput(exportData(data, exportOptions), flags);
+  }
+  return 0;
+}
+
+async function domCommand(url: string, flags: CliFlags): Promise<number> {
+  const format = flags.format || 'text';
+  if (!['text', 'json', 'compact', 'accessibility'].includes(format)) {
+    throw new UsageError(`Unknown format "${format}" for dom`);
+  }
+  const extractor = new DomExtractor(flags['max-depth'] ? { maxDepth: parseNumber(flags['max-depth'], '--max-depth') } : {});
+
+  if (format === 'compact') {
+    const compact = await withPage(url, flags, page => extractor.extractCompact(page, flags.selector));
+    if (!compact) {
+      return 1;
+    }
+    writeOutput(extractor.compactToString(compact), flags);
+    return 0;
+  }
+
+  if (format === 'accessibility') {
+    const axTree = await withPage(url, flags, page => extractor.extractAccessibilityTree(page, flags.selector));
+    if (!axTree) {
+      return 1;
+    }
+    writeOutput(extractor.accessibilityTreeToString(axTree), flags);
+    return 0;
+  }
+
+  const tree = await withPage(url, flags, page =>
+    flags.selector ? extractor.extractFromSelector(page, flags.selector) : extractor.extractFromPage(page)
+  );
+
+  if (!tree) {
+    // DomExtractor has already logged the missing selector
+    return 1;
+  }
+  writeOutput(format === 'json' ? extractor.treeToJson(tree) : extractor.treeToString(tree), flags);
+  return 0;
+}
+
+async function screenshotCommand(url: string, flags: CliFlags): Promise<number> {
+  const path = flags.output || 'screenshot.png';
+  const type = path.endsWith('.jpg') || path.endsWith('.jpeg') ? 'jpeg' : 'png';
+
+  const timeout = flags.timeout ? parseNumber(flags.timeout, '--timeout') : undefined;
+
+  await withPage(url, flags, async page => {
+    const actions = new BrowserActions(page);
+    if (flags.selector) {
+      await actions.screenshotElement(flags.selector, { path, type, timeout });
+    } else {
+      await actions.screenshot({ path, type, fullPage: flags['full-page'] });
+    }
+  });
+
+  console.error(`Saved to ${path}`);
+  return 0;
+}
+
+async function runCommand(file: string, flags: CliFlags): Promise<number> {
+  const workflow = loadWorkflow(file);
+  workflow.browser = { ...workflow.browser, ...browserConfigFromFlags(flags) };
+
+  const result = await new WorkflowRunner().run(workflow);
+  for (const step of result.steps) {
+    const detail = step.error ? ` - ${step.error}` : '';
+    console.error(`${step.status.padEnd(7)} ${step.path} ${step.name || step.action} (${step.duration}ms)${detail}`);
+  }
+
+  if (flags.output) {
+    writeOutput(JSON.stringify(result, null, 2), flags);
+  }
+  return result.success ? 0 : 1;
+}
+
+/**
+ * Parse the arguments and run a command. Returns the process exit code.
+ */
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  try {
+    const { values: flags, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    const [command, target] = positionals;
+
+    if (flags.help || !command) {
+      console.log(USAGE);
+      return flags.help ? 0 : 2;
+    }
+
+    switch (command) {
+      case 'extract':
+        return await extractCommand(requireArgument(target, 'url'), flags);
+      case 'dom':
+        return await domCommand(requireArgument(target, 'url'), flags);
+      case 'screenshot':
+        return await screenshotCommand(requireArgument(target, 'url'), flags);
+      case 'run':
+        return await runCommand(requireArgument(target, 'workflow'), flags);
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main().then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,213 @@
+import { Page } from 'playwright';
+import { AutomationBrowser } from '../browser/AutomationBrowser';
+import { DataExtractor, ExtractionRule, ExtractionOptions, ExtractedData } from '../dom/DataExtractor';
+
+export type UrlPattern = string | RegExp;
+
+export interface CrawlerOptions {
+  rules: ExtractionRule[];             // Rules applied to every crawled page
+  maxDepth?: number;                   // How many links away from a seed to follow (default: 2)
+  maxPages?: number;                   // Total number of pages to visit (default: 50)
+  concurrency?: number;                // Pages processed at the same time (default: 2)
+  sameOrigin?: boolean;                // Only follow links on the seed's origin (default: true)
+  include?: UrlPattern[];              // Only follow URLs matching one of these patterns
+  exclude?: UrlPattern[];              // Never follow URLs matching one of these patterns
+  linkSelector?: string;               // Elements whose href is followed (default: 'a[href]')
+  extractionOptions?: ExtractionOptions;
+  onPage?: (result: CrawlResult) => void | Promise<void>; // Called as soon as a page is done
+}
+
+export interface CrawlResult {
+  url: string;
+  depth: number;
+  data: ExtractedData | null;
+  links: string[];
+  error?: string;
+}
+
+interface QueuedUrl {
+  url: string;
+  depth: number;
+  origin: string;
+}
+
+/**
+ * Normalize a URL for deduplication: resolve it, drop the fragment, sort query
+ * parameters and strip the trailing slash. Returns null for non-http(s) URLs.
+ */
+export function normalizeUrl(href: string, base?: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(href, base);
+  } catch (error) {
+    return null;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  url.hash = '';
+  url.searchParams.sort();
+  if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+    url.pathname = url.pathname.slice(0, -1);
+  }
+  return url.toString();
+}
+
+function matchesPattern(url: string, pattern: UrlPattern): boolean {
+  return typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url);
+}
+
+// With 'g' or 'y', test() carries lastIndex from one URL to the next
+function statelessPattern(pattern: UrlPattern): UrlPattern {
+  return typeof pattern === 'string' ? pattern : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+}
+
+export class Crawler {
+  private browser: AutomationBrowser;
+  private options: Required<Omit<CrawlerOptions, 'include' | 'exclude' | 'extractionOptions' | 'onPage'>> &
+    Pick<CrawlerOptions, 'include' | 'exclude' | 'extractionOptions' | 'onPage'>;
+
+  constructor(browser: AutomationBrowser, options: CrawlerOptions) {
+    this.browser = browser;
+    this.options = {
+      maxDepth: 2,
+      maxPages: 50,
+      concurrency: 2,
+      sameOrigin: true,
+      linkSelector: 'a[href]',
+      ...options,
+      include: options.include?.map(statelessPattern),
+      exclude: options.exclude?.map(statelessPattern)
+    };
+  }
+
+  /**
+   * Crawl outward from the seed URLs and return one result per visited page
+   */
+  async crawl(seeds: string | string[]): Promise<CrawlResult[]> {
+    if (!this.browser.isLaunched()) {
+      throw new Error('Browser not launched. Call launch() first.');
+    }
+
+    const queue: QueuedUrl[] = [];
+    const seen = new Set<string>();
+    const results: CrawlResult[] = [];
+    let active = 0;
+
+    for (const seed of typeof seeds === 'string' ? [seeds] : seeds) {
+      const url = normalizeUrl(seed);
+      if (url && !seen.has(url)) {
+        seen.add(url);
+        queue.push({ url, depth: 0, origin: new URL(url).origin });
+      }
+    }
+
+    const worker = async (): Promise<void> => {
+      while (true) {
+        if (results.length + active >= this.options.maxPages) {
+          return;
+        }
+
+        const next = queue.shift();
+        if (!next) {
+          // Another worker may still discover links
+          if (active === 0) {
+            return;
+          }
+          await new Promise(resolve => setTimeout(resolve, 50));
+          continue;
+        }
+
+        active++;
+        try {
+          const result = await this.visit(next.url, next.depth);
+          results.push(result);
+
+          if (next.depth < this.options.maxDepth) {
+            for (const link of result.links) {
+              if (!seen.has(link) && this.shouldFollow(link, next.origin)) {
+                seen.add(link);
+                queue.push({ url: link, depth: next.depth + 1, origin: next.origin });
+              }
+            }
+          }
+
+          if (this.options.onPage) {
+            // A failing callback is reported on its page like an extraction error
+            try {
+              await this.options.onPage(result);
+            } catch (error) {
+              const message = `onPage failed: ${error instanceof Error ? error.message : String(error)}`;
+              result.error = result.error ? `${result.error}; ${message}` : message;
+            }
+          }
+        } finally {
+          active--;
+        }
+      }
+    };
+
+    const workerCount = Math.max(1, this.options.concurrency);
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    return results;
+  }
+
+  /**
+   * Open a page, apply the rule set and collect outgoing links
+   */
+  private async visit(url: string, depth: number): Promise<CrawlResult> {
+    let page: Page | null = null;
+    try {
+      page = await this.browser.goto(url);
+      const extractor = new DataExtractor(page);
+      const data = await extractor.extractData(this.options.rules, this.options.extractionOptions);
+
+      // Same rule extractCommonData uses for links, without waiting for pages that have none
+      const linkData = await extractor.extractData(
+        [{ key: 'links', selector: this.options.linkSelector, attribute: 'href', multiple: true }],
+        { includeMetadata: false, waitForElement: false }
+      );
+      const links = new Set<string>();
+      for (const href of (linkData.links || []) as (string | null)[]) {
+        const link = href ? normalizeUrl(href, page.url()) : null;
+        if (link) {
+          links.add(link);
+        }
+      }
+
+      return { url, depth, data, links: Array.from(links) };
+    } catch (error) {
+      return {
+        url,
+        depth,
+        data: null,
+        links: [],
+        error: error instanceof Error ? error.message : String(error)
+      };
+    } finally {
+      if (page) {
+        await page.close().catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Apply the origin and include/exclude filters to a discovered link
+   */
+  private shouldFollow(url: string, origin: string): boolean {
+    if (this.options.sameOrigin && new URL(url).origin !== origin) {
+      return false;
+    }
+    if (this.options.include && this.options.include.length > 0 &&
+        !this.options.include.some(pattern => matchesPattern(url, pattern))) {
+      return false;
+    }
+    if (this.options.exclude && this.options.exclude.some(pattern => matchesPattern(url, pattern))) {
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,320 @@
+import { Page } from 'playwright';
+
+export interface AccessibilityStates {
+  checked?: boolean | 'mixed';
+  expanded?: boolean;
+  disabled?: boolean;
+  focused?: boolean;
+  selected?: boolean;
+  pressed?: boolean | 'mixed';
+  required?: boolean;
+  readonly?: boolean;
+}
+
+export interface AccessibilityNode {
+  role: string;                       // Explicit ARIA role, or the element's implicit one
+  name: string;                       // Accessible name (aria-labelledby, aria-label, label, alt, content, title)
+  description?: string;               // From aria-describedby, or title when it isn't the name
+  value?: string;                     // Current value of form fields, sliders and progress bars
+  level?: number;                     // Heading level
+  states: AccessibilityStates;
+  domPath: string;                    // Path of the matching DomNode, see DomExtractor.findDomNode()
+  children: AccessibilityNode[];
+  depth: number;                      // Depth in the accessibility tree (0 = root)
+}
+
+export interface AccessibilityOptions {
+  selector?: string;                  // Root element (default: the whole document)
+  includeHidden?: boolean;            // Same as DomExtractionOptions.includeHidden
+  maxDepth?: number;                  // Same as DomExtractionOptions.maxDepth, counted in DOM levels
+  excludeTags?: string[];             // Same as DomExtractionOptions.excludeTags
+}
+
+/**
+ * Compute the accessibility tree in the page. Elements without a role (plain
+ * divs and spans) are flattened so their children attach to the nearest
+ * ancestor with one; loose text becomes 'text' nodes. Each node records the
+ * path of its element in the DomNode tree built with the same options.
+ */
+export async function extractAccessibilityTree(page: Page, options: AccessibilityOptions = {}): Promise<AccessibilityNode | null> {
+  const config = {
+    selector: options.selector || null,
+    includeHidden: options.includeHidden || false,
+    maxDepth: options.maxDepth ?? 50,
+    excludeTags: (options.excludeTags || ['script', 'style']).slice()
+  };
+
+  return await page.evaluate((config) => {
+    const root: Element | null = config.selector ? document.querySelector(config.selector) : document.documentElement;
+    if (!root) {
+      return null;
+    }
+
+    const NAME_FROM_CONTENT = [
+      'button', 'link', 'heading', 'cell', 'columnheader', 'rowheader', 'option', 'tab', 'menuitem',
+      'menuitemcheckbox', 'menuitemradio', 'checkbox', 'radio', 'switch', 'treeitem', 'tooltip', 'row'
+    ];
+    const SIMPLE_ROLES: Record<string, string> = {
+      button: 'button', summary: 'button', textarea: 'textbox', ul: 'list', ol: 'list', li: 'listitem',
+      nav: 'navigation', main: 'main', aside: 'complementary', table: 'table', tr: 'row', td: 'cell',
+      th: 'columnheader', dialog: 'dialog', article: 'article', option: 'option', p: 'paragraph',
+      details: 'group', fieldset: 'group', progress: 'progressbar', hr: 'separator', dl: 'list',
+      dt: 'term', dd: 'definition', figure: 'figure', menu: 'list', meter: 'meter', output: 'status'
+    };
+    const INPUT_ROLES: Record<string, string> = {
+      checkbox: 'checkbox', radio: 'radio', range: 'slider', number: 'spinbutton', search: 'searchbox',
+      button: 'button', submit: 'button', reset: 'button', image: 'button'
+    };
+
+    const isHidden = (element: Element) => {
+      if (config.includeHidden) {
+        return false;
+      }
+      const style = window.getComputedStyle(element);
+      return style.display === 'none' || style.visibility === 'hidden';
+    };
+    // Elements DomExtractor would keep, so paths line up with DomNode trees
+    const isTracked = (element: Element) => !config.excludeTags.includes(element.tagName.toLowerCase()) && !isHidden(element);
+
+    const roleOf = (element: Element): string | null => {
+      const explicit = element.getAttribute('role');
+      if (explicit) {
+        const role = explicit.trim().split(/\s+/)[0];
+        return role === 'none' ? 'presentation' : role;
+      }
+      const tag = element.tagName.toLowerCase();
+      if (element === document.documentElement) return 'document';
+      if (/^h[1-6]$/.test(tag)) return 'heading';
+      if (tag === 'a' || tag === 'area') return element.hasAttribute('href') ? 'link' : null;
+      if (tag === 'img') return element.getAttribute('alt') === '' ? 'presentation' : 'img';
+      if (tag === 'input') {
+        const type = ((element as HTMLInputElement).type || 'text').toLowerCase();
+        if (type === 'hidden') return null;
+        return INPUT_ROLES[type] || (element.hasAttribute('list') ? 'combobox' : 'textbox');
+      }
+      if (tag === 'select') {
+        const select = element as HTMLSelectElement;
+        return select.multiple || select.size > 1 ? 'listbox' : 'combobox';
+      }
+      if (tag === 'header') return element.closest('article, aside, main, nav, section') ? null : 'banner';
+      if (tag === 'footer') return element.closest('article, aside, main, nav, section') ? null : 'contentinfo';
+      if (tag === 'section') return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') ? 'region' : null;
+      if (tag === 'form') return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') || element.hasAttribute('name') ? 'form' : null;
+      if (tag === 'th' && element.getAttribute('scope') === 'row') return 'rowheader';
+      return SIMPLE_ROLES[tag] || null;
+    };
+
+    const textOf = (element: Element) => ((element as HTMLElement).innerText ?? element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    const byIds = (ids: string | null) =>
+      (ids || '').split(/\s+/).map(id => document.getElementById(id)).filter(Boolean).map(node => textOf(node!)).join(' ').trim();
+
+    const nameOf = (element: Element, role: string | null): string => {
+      const labelledBy = byIds(element.getAttribute('aria-labelledby'));
+      if (labelledBy) return labelledBy;
+      const label = element.getAttribute('aria-label');
+      if (label && label.trim()) return label.trim();
+
+      const tag = element.tagName.toLowerCase();
+      if (tag === 'input' || tag === 'textarea' || tag === 'select') {
+        const input = element as HTMLInputElement;
+        if (['submit', 'reset', 'button'].includes(input.type)) return input.value || (input.type === 'submit' ? 'Submit' : input.type === 'reset' ? 'Reset' : '');
+        if (input.type === 'image') return input.alt || '';
+        const labels = input.labels;
+        if (labels && labels.length > 0) return Array.from(labels).map(textOf).join(' ').trim();
+        if (input.placeholder) return input.placeholder;
+      }
+      if (tag === 'img' || tag === 'area') return element.getAttribute('alt') || element.getAttribute('title') || '';
+      if (tag === 'fieldset') {
+        const legend = element.querySelector(':scope > legend');
+        if (legend) return textOf(legend);
+      }
+      if (tag === 'table') {
+        const caption = element.querySelector(':scope > caption');
+        if (caption) return textOf(caption);
+      }
+      if (role && NAME_FROM_CONTENT.includes(role)) {
+        const content = textOf(element);
+        if (content) return content;
+      }
+      return element.getAttribute('title') || '';
+    };
+
+    const tristate = (value: string | null): boolean | 'mixed' | undefined =>
+      value === 'mixed' ? 'mixed' : value === 'true' ? true : value === 'false' ? false : undefined;
+
+    const statesOf = (element: Element, role: string) => {
+      const states: Record<string, boolean | 'mixed'> = {};
+      const tag = element.tagName.toLowerCase();
+      const input = element as HTMLInputElement;
+
+      const checked = tristate(element.getAttribute('aria-checked'));
+      if (checked !== undefined) {
+        states.checked = checked;
+      } else if (tag === 'input' && (input.type === 'checkbox' || input.type === 'radio')) {
+        states.checked = input.indeterminate ? 'mixed' : input.checked;
+      }
+
+      const expanded = tristate(element.getAttribute('aria-expanded'));
+      if (expanded !== undefined && expanded !== 'mixed') {
+        states.expanded = expanded;
+      } else if (tag === 'details') {
+        states.expanded = (element as HTMLDetailsElement).open;
+      }
+
+      if ((element as HTMLButtonElement).disabled || element.closest('[aria-disabled="true"]') || element.closest('fieldset[disabled]')) {
+        states.disabled = true;
+      }
+      if (document.activeElement === element) {
+        states.focused = true;
+      }
+      const selected = tristate(element.getAttribute('aria-selected'));
+      if (selected === true || (tag === 'option' && (element as HTMLOptionElement).selected)) {
+        states.selected = true;
+      }
+      const pressed = tristate(element.getAttribute('aria-pressed'));
+      if (pressed !== undefined) {
+        states.pressed = pressed;
+      }
+      if (input.required || element.getAttribute('aria-required') === 'true') {
+        states.required = true;
+      }
+      if ((input.readOnly && ['textbox', 'searchbox', 'spinbutton'].includes(role)) || element.getAttribute('aria-readonly') === 'true') {
+        states.readonly = true;
+      }
+      return states;
+    };
+
+    const valueOf = (element: Element, role: string): string | undefined => {
+      const now = element.getAttribute('aria-valuetext') || element.getAttribute('aria-valuenow');
+      if (now) return now;
+      const tag = element.tagName.toLowerCase();
+      if (tag === 'input' && (element as HTMLInputElement).type === 'password') {
+        return undefined;
+      }
+      if (['textbox', 'searchbox', 'spinbutton', 'slider', 'combobox'].includes(role) && (tag === 'input' || tag === 'textarea' || tag === 'select')) {
+        return (element as HTMLInputElement).value || undefined;
+      }
+      if (tag === 'progress' || tag === 'meter') {
+        return String((element as HTMLProgressElement).value);
+      }
+      return undefined;
+    };
+
+    const segment = (element: Element) => {
+      const tag = element.tagName.toLowerCase();
+      let position = 1;
+      for (let sibling = element.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+        if (sibling.tagName === element.tagName && isTracked(sibling)) {
+          position++;
+        }
+      }
+      return `${tag}[${position}]`;
+    };
+
+    // Collect the accessible children of an element, flattening role-less wrappers
+    const collect = (element: Element, path: string, domDepth: number, depth: number, role: string | null): any[] => {
+      const result: any[] = [];
+      const ownText = !role || !NAME_FROM_CONTENT.includes(role);
+
+      element.childNodes.forEach(child => {
+        if (child.nodeType === 3) {
+          const text = (child.textContent || '').replace(/\s+/g, ' ').trim();
+          if (text && ownText) {
+            result.push({ role: 'text', name: text, states: {}, domPath: path, children: [], depth });
+          }
+          return;
+        }
+        if (child.nodeType !== 1 || !isTracked(child as Element)) {
+          return;
+        }
+        if (!config.includeHidden && (child as Element).getAttribute('aria-hidden') === 'true') {
+          return;
+        }
+        const childPath = `${path}/${segment(child as Element)}`;
+        const node = build(child as Element, childPath, domDepth + 1, depth);
+        if (Array.isArray(node)) {
+          result.push(...node);
+        } else if (node) {
+          result.push(node);
+        }
+      });
+      return result;
+    };
+
+    // Returns a node, or the flattened children of an element without a role
+    const build = (element: Element, path: string, domDepth: number, depth: number): any => {
+      // Same cut-off as DomExtractor: elements deeper than maxDepth are dropped, their parent's text is kept
+      if (domDepth > config.maxDepth) {
+        return null;
+      }
+      const role = roleOf(element);
+      if (!role || role === 'presentation' || role === 'generic') {
+        return collect(element, path, domDepth, depth, null);
+      }
+
+      const node: any = {
+        role,
+        name: nameOf(element, role),
+        states: statesOf(element, role),
+        domPath: path,
+        children: [],
+        depth
+      };
+      const description = byIds(element.getAttribute('aria-describedby')) || (element.getAttribute('title') !== node.name ? element.getAttribute('title') : '');
+      if (description) node.description = description;
+      const value = valueOf(element, role);
+      if (value !== undefined) node.value = value;
+      if (role === 'heading') {
+        node.level = Number(element.getAttribute('aria-level')) || Number(element.tagName.slice(1)) || 2;
+      }
+
+      // Text-like content of name-from-content roles is already in the name
+      node.children = collect(element, path, domDepth, depth + 1, role).filter((child: any) => child.role !== 'text' || !NAME_FROM_CONTENT.includes(role));
+      return node;
+    };
+
+    const rootPath = `${root.tagName.toLowerCase()}[1]`;
+    const built = build(root, rootPath, 0, 0);
+    if (!Array.isArray(built)) {
+      if (built.role === 'document') {
+        built.name = document.title;
+      }
+      return built;
+    }
+    return { role: 'generic', name: '', states: {}, domPath: rootPath, children: built, depth: 0 };
+  }, config);
+}
+
+/**
+ * Render an accessibility tree as indented text, e.g.
+ *
+ *   - document "Example"
+ *     - heading "Welcome" [level=1]
+ *     - button "Save" [disabled]
+ *     - checkbox "Remember me" [checked=false]
+ */
+export function accessibilityTreeToString(node: AccessibilityNode, indent: string = ''): string {
+  let line = `${indent}- ${node.role}`;
+  if (node.name) {
+    line += ` ${JSON.stringify(node.name)}`;
+  }
+
+  const details: string[] = [];
+  if (node.level !== undefined) {
+    details.push(`level=${node.level}`);
+  }
+  for (const [state, value] of Object.entries(node.states)) {
+    details.push(value === true ? state : `${state}=${value}`);
+  }
+  if (node.value !== undefined) {
+    details.push(`value=${JSON.stringify(node.value)}`);
+  }
+  if (details.length > 0) {
+    line += ` [${details.join(', ')}]`;
+  }
+  if (node.description) {
+    line += ` (${node.description})`;
+  }
+
+  return [line, ...node.children.map(child => accessibilityTreeToString(child, `${indent}  `))].join('\n');
+}
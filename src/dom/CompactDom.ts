@@ -0,0 +1,215 @@
+import { Page } from 'playwright';
+
+// Attribute that holds each interactive element's index in the page
+export const INDEX_ATTRIBUTE = 'data-automation-index';
+
+export interface CompactNode {
+  index?: number;                     // Set for interactive elements; use with BrowserActions.clickIndex etc.
+  tagName: string;                    // Element tag, or '#text' for plain content
+  role?: string;                      // Explicit ARIA role, if any
+  text: string;                       // Visible text, label or value, truncated to maxTextLength
+  attributes: Record<string, string>; // Only attributes that help identify the element (href, type, name, ...)
+  depth: number;                      // Nesting level among landmarks such as nav, form and lists, and interactive wrappers
+}
+
+export interface CompactDom {
+  url: string;
+  title: string;
+  nodes: CompactNode[];
+}
+
+export interface CompactDomOptions {
+  selector?: string;                  // Only serialize this element's subtree (default: body)
+  includeHidden?: boolean;            // Keep elements hidden with CSS (default: false)
+  excludeTags?: string[];             // Tags to skip entirely (default: script, style, noscript, svg)
+  maxTextLength?: number;             // Truncate text longer than this (default: 100)
+}
+
+/**
+ * Build a compact view of the page: interactive elements (links, buttons, form
+ * fields, ARIA widgets) get a numeric index, headings and text are kept as
+ * content, and wrapper elements disappear. Indices are stored on the elements
+ * in a data attribute, so they stay the same for repeated calls on one document.
+ */
+export async function extractCompactDom(page: Page, options: CompactDomOptions = {}): Promise<CompactDom | null> {
+  const config = {
+    selector: options.selector || 'body',
+    includeHidden: options.includeHidden || false,
+    excludeTags: (options.excludeTags || ['script', 'style', 'noscript', 'svg', 'template']).slice(),
+    maxTextLength: options.maxTextLength || 100,
+    indexAttribute: INDEX_ATTRIBUTE
+  };
+
+  const nodes = await page.evaluate((config) => {
+    const root = document.querySelector(config.selector);
+    if (!root) {
+      return null;
+    }
+
+    const WIDGET_ROLES = [
+      'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+      'menuitemradio', 'option', 'textbox', 'searchbox', 'combobox', 'slider', 'spinbutton', 'treeitem'
+    ];
+    const LANDMARKS = ['nav', 'main', 'header', 'footer', 'aside', 'form', 'section', 'dialog', 'ul', 'ol', 'table'];
+    const KEPT_ATTRIBUTES = ['href', 'type', 'name', 'placeholder', 'value', 'aria-label', 'title', 'alt', 'role', 'checked', 'selected', 'disabled', 'aria-expanded'];
+
+    const win = window as any;
+    win.__automationNextIndex = win.__automationNextIndex || 1;
+
+    const truncate = (text: string) => {
+      const clean = text.replace(/\s+/g, ' ').trim();
+      return clean.length > config.maxTextLength ? `${clean.slice(0, config.maxTextLength - 1)}…` : clean;
+    };
+
+    const isHidden = (element: Element) => {
+      if (config.includeHidden) {
+        return false;
+      }
+      const style = window.getComputedStyle(element);
+      return style.display === 'none' || style.visibility === 'hidden' || element.getAttribute('aria-hidden') === 'true';
+    };
+
+    const isInteractive = (element: Element) => {
+      const tag = element.tagName.toLowerCase();
+      const role = element.getAttribute('role');
+      if (tag === 'a') return element.hasAttribute('href');
+      if (tag === 'input') return (element as HTMLInputElement).type !== 'hidden';
+      if (['button', 'select', 'textarea', 'summary'].includes(tag)) return true;
+      if (role && WIDGET_ROLES.includes(role)) return true;
+      if (element.hasAttribute('onclick')) return true;
+      if ((element as HTMLElement).isContentEditable && !element.parentElement?.closest('[contenteditable]')) return true;
+      const tabIndex = element.getAttribute('tabindex');
+      return tabIndex !== null && Number(tabIndex) >= 0;
+    };
+
+    const labelFor = (element: Element) => {
+      const tag = element.tagName.toLowerCase();
+      const text = (element as HTMLElement).innerText || element.textContent || '';
+      if (text.trim()) {
+        return text;
+      }
+      if (tag === 'input' || tag === 'textarea' || tag === 'select') {
+        const labels = (element as HTMLInputElement).labels;
+        if (labels && labels.length > 0) {
+          return labels[0].textContent || '';
+        }
+      }
+      return element.getAttribute('aria-label') || element.getAttribute('title') || element.getAttribute('alt') || '';
+    };
+
+    const attributesOf = (element: Element) => {
+      const attributes: Record<string, string> = {};
+      for (const name of KEPT_ATTRIBUTES) {
+        const value = element.getAttribute(name);
+        if (value !== null && value.length <= 200) {
+          attributes[name] = value;
+        }
+      }
+      const tag = element.tagName.toLowerCase();
+      if (tag === 'input' && (element as HTMLInputElement).type === 'password') {
+        // Never hand a typed password to the caller, whether attribute or live value
+        delete attributes.value;
+      } else if ((tag === 'input' || tag === 'textarea' || tag === 'select') && (element as HTMLInputElement).value) {
+        attributes.value = (element as HTMLInputElement).value;
+      }
+      return attributes;
+    };
+
+    const nodes: any[] = [];
+    const LEAF_CONTROLS = ['input', 'select', 'textarea', 'button'];
+
+    // Inside an interactive element only nested controls are listed; its text is already the label
+    const visit = (element: Element, depth: number, insideControl = false) => {
+      const tag = element.tagName.toLowerCase();
+      if (config.excludeTags.includes(tag) || isHidden(element)) {
+        return;
+      }
+
+      if (isInteractive(element)) {
+        let index = Number(element.getAttribute(config.indexAttribute));
+        if (!index) {
+          index = win.__automationNextIndex++;
+          element.setAttribute(config.indexAttribute, String(index));
+        }
+        nodes.push({
+          index,
+          tagName: tag,
+          role: element.getAttribute('role') || undefined,
+          text: truncate(labelFor(element)),
+          attributes: attributesOf(element),
+          depth
+        });
+        // Wrappers such as <div onclick> or role="listitem" tabindex="0" can hold more controls
+        if (!LEAF_CONTROLS.includes(tag)) {
+          Array.from(element.children).forEach(child => visit(child, depth + 1, true));
+        }
+        return;
+      }
+
+      if (insideControl) {
+        Array.from(element.children).forEach(child => visit(child, depth, true));
+        return;
+      }
+
+      if (/^h[1-6]$/.test(tag) || (tag === 'img' && element.getAttribute('alt'))) {
+        const text = truncate(tag === 'img' ? element.getAttribute('alt') || '' : (element as HTMLElement).innerText || element.textContent || '');
+        if (text) {
+          nodes.push({ tagName: tag, text, attributes: {}, depth });
+        }
+        if (tag === 'img' || !element.querySelector('a[href], button, input, select, textarea, [role], [tabindex], [onclick]')) {
+          return;
+        }
+      }
+
+      const childDepth = LANDMARKS.includes(tag) ? depth + 1 : depth;
+      element.childNodes.forEach(child => {
+        if (child.nodeType === 1) {
+          visit(child as Element, childDepth);
+        } else if (child.nodeType === 3 && !/^h[1-6]$/.test(tag)) {
+          const text = truncate(child.textContent || '');
+          if (text) {
+            nodes.push({ tagName: '#text', text, attributes: {}, depth: childDepth });
+          }
+        }
+      });
+    };
+
+    visit(root, 0);
+    return nodes;
+  }, config);
+
+  if (!nodes) {
+    return null;
+  }
+  return { url: page.url(), title: await page.title(), nodes };
+}
+
+/**
+ * Render a compact DOM as indented text, one node per line:
+ *
+ *   # Page heading
+ *   [3]<a href="/about">About us</a>
+ *   Some paragraph text
+ *     [4]<input type="text" name="q" placeholder="Search">
+ */
+export function compactDomToString(dom: CompactDom): string {
+  return dom.nodes.map(node => {
+    const indent = '  '.repeat(node.depth);
+    if (node.index === undefined) {
+      const heading = node.tagName.match(/^h([1-6])$/);
+      if (heading) {
+        return `${indent}${'#'.repeat(Number(heading[1]))} ${node.text}`;
+      }
+      return node.tagName === 'img' ? `${indent}[image: ${node.text}]` : `${indent}${node.text}`;
+    }
+
+    const attributes = Object.entries(node.attributes)
+      .map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${value}"`))
+      .join('');
+    // Inputs have no closing tag, so their label follows the element
+    if (node.tagName === 'input') {
+      return `${indent}[${node.index}]<${node.tagName}${attributes}>${node.text ? ` ${node.text}` : ''}`;
+    }
+    return `${indent}[${node.index}]<${node.tagName}${attributes}>${node.text}</${node.tagName}>`;
+  }).join('\n');
+}
@@ -1,18 +1,44 @@
-import { Page } from 'playwright';
-import { BrowserActions } from '../browser/actions/BrowserActions';
+import { Page, Locator } from 'playwright';
+import { BrowserActions, SelectorTarget } from '../browser/actions/BrowserActions';
+import { isFatalError, toAutomationError } from '../errors/AutomationError';
+import { AutomationEvents, Observers, observersFor } from '../events/AutomationEvents';
+import { Logger, consoleLogger } from '../logging/Logger';
+import { ExportOptions, toCsv, toMarkdown, toNdjson, writeExport } from '../export/Exporters';
+import { ExtractionSchema, SchemaResult, ValidationReport, hasValidation, validateExtraction } from './ExtractionSchema';
+import { TransformStep, resolveTransform } from './ValueTransforms';
+import { ParsedTable, TableOptions, extractTables } from './TableParser';
+import { StructuredData, StructuredDataOptions, extractStructuredData } from './StructuredData';
 
 export interface ExtractionRule {
   key: string;
   selector: string;
   attribute?: string; // Extract attribute value instead of text
   multiple?: boolean; // Extract array of elements
-  transform?: (value: string) => any; // Transform the extracted value
+  transform?: TransformStep | TransformStep[]; // Function, named transform ('trim', { name: 'price', locale }) or a list applied in order
+  fields?: ExtractionRule[]; // Treat selector as a container and extract these rules inside each one; a transform then receives each assembled object
+  skipEmpty?: boolean; // Leave elements without a value out of multiple results
+  required?: boolean; // Report the field when nothing is found
+  pattern?: RegExp | string; // Each value must match
+  minCount?: number; // Multiple rules: fewest values expected
+  maxCount?: number; // Multiple rules: most values expected
+  validate?: (value: any) => boolean | string; // Custom check for each value; a string is the failure message
 }
 
 export interface ExtractionOptions {
   timeout?: number;
   waitForElement?: boolean;
   includeMetadata?: boolean;
+  validate?: boolean; // Attach a _validation report (default: when any rule declares a check)
+}
+
+export interface PaginationOptions {
+  nextSelector?: SelectorTarget; // Link or button that leads to the next page
+  infiniteScroll?: boolean;      // Scroll to the bottom instead of following a next link
+  itemKey?: string;              // Rule key whose array counts as "items" (default: first multiple rule)
+  maxPages?: number;             // Stop after this many pages (default: 10)
+  maxItems?: number;             // Stop once this many items were collected
+  timeBudget?: number;           // Stop after this many milliseconds
+  pageDelay?: number;            // Wait after each page turn or scroll (default: 1000)
 }
 
 export interface ExtractedData {
@@ -23,15 +49,26 @@ export interface ExtractedData {
     timestamp: string;
     extractionRules: ExtractionRule[];
   };
+  _pagination?: {
+    pages: number;
+    itemCount: number;
+    stoppedBy: 'maxPages' | 'maxItems' | 'timeBudget' | 'noNextPage' | 'noNewItems';
+  };
+  _validation?: ValidationReport;
 }
 
 export class DataExtractor {
   private actions: BrowserActions;
   private page: Page;
+  private logger: Logger;
+  private events: AutomationEvents;
 
-  constructor(page: Page) {
+  constructor(page: Page, options: Observers = {}) {
+    const observers = observersFor(page);
     this.page = page;
-    this.actions = new BrowserActions(page);
+    this.logger = options.logger || observers.logger || consoleLogger;
+    this.events = options.events || observers.events || new AutomationEvents();
+    this.actions = new BrowserActions(page, { logger: this.logger, events: this.events });
   }
 
   /**
@@ -43,19 +80,27 @@ export class DataExtractor {
     const includeMetadata = options.includeMetadata !== false;
 
     const extractedData: ExtractedData = {};
+    const failures: Record<string, string> = {};
 
     // Wait for page to be ready
     if (waitForElement) {
       try {
         await this.page.waitForLoadState('domcontentloaded', { timeout });
       } catch (error) {
-        console.warn('Page load timeout, continuing with extraction...');
+        this.logger.warn('Page load timeout, continuing with extraction...', { url: this.page.url() });
       }
     }
 
     // Process each extraction rule
     for (const rule of rules) {
+      const ruleStart = Date.now();
       try {
+        if (rule.fields) {
+          extractedData[rule.key] = this.applyTransform(rule, await this.extractNested(rule, this.page, timeout));
+          this.emitRule(rule, ruleStart, extractedData[rule.key]);
+          continue;
+        }
+
         let value: any;
 
         if (rule.multiple) {
@@ -66,23 +111,31 @@ export class DataExtractor {
           value = await this.extractSingle(rule, timeout);
         }
 
-        // Apply transformation if provided
-        if (rule.transform && value !== null) {
-          if (Array.isArray(value)) {
-            value = value.map(v => rule.transform!(v));
-          } else {
-            value = rule.transform(value);
-          }
-        }
-
-        extractedData[rule.key] = value;
+        extractedData[rule.key] = this.applyTransform(rule, value);
+        this.emitRule(rule, ruleStart, extractedData[rule.key]);
 
       } catch (error) {
-        console.warn(`Failed to extract data for rule "${rule.key}":`, error);
+        const failure = toAutomationError(error, {
+          action: 'extractData',
+          selector: rule.selector,
+          url: this.page.url(),
+          elapsed: Date.now() - ruleStart
+        });
+        // A dead page fails every later rule too, so surface it instead of returning nulls
+        this.emitRule(rule, ruleStart, null, failure);
+        if (isFatalError(failure)) {
+          throw failure;
+        }
+        this.logger.warn(`Failed to extract data for rule "${rule.key}": ${failure.message}`, { key: rule.key });
         extractedData[rule.key] = null;
+        failures[rule.key] = failure.message;
       }
     }
 
+    if (options.validate ?? hasValidation(rules)) {
+      extractedData._validation = this.validate(rules, extractedData, failures);
+    }
+
     // Add metadata if requested
     if (includeMetadata) {
       extractedData._metadata = await this.buildMetadata(rules);
@@ -91,13 +144,301 @@ export class DataExtractor {
     return extractedData;
   }
 
+  /**
+   * Extract data across several pages, either by following a next link/button or by
+   * scrolling until no new items appear. Array fields are merged across pages;
+   * other fields keep the value from the first page.
+   */
+  async extractPaginated(
+    rules: ExtractionRule[],
+    pagination: PaginationOptions,
+    options: ExtractionOptions = {}
+  ): Promise<ExtractedData> {
+    if (!pagination.nextSelector && !pagination.infiniteScroll) {
+      throw new Error('Pagination requires either nextSelector or infiniteScroll');
+    }
+
+    const maxPages = pagination.maxPages || 10;
+    const pageDelay = pagination.pageDelay ?? 1000;
+    const itemKey = pagination.itemKey || rules.find(rule => rule.multiple)?.key;
+    const start = Date.now();
+    const pageOptions = { ...options, includeMetadata: false, validate: false };
+    const countItems = (data: ExtractedData) =>
+      itemKey && Array.isArray(data[itemKey]) ? data[itemKey].length : 0;
+
+    // Pages are recognised by their items (or all fields), so a page that repeats ends the run
+    const itemSelector = rules.find(rule => rule.key === itemKey)?.selector;
+    const pageSignature = (data: ExtractedData) => JSON.stringify(itemKey ? data[itemKey] : data);
+
+    let merged = await this.extractData(rules, pageOptions);
+    const seenPages = new Set([pageSignature(merged)]);
+    let pages = 1;
+    let stoppedBy: NonNullable<ExtractedData['_pagination']>['stoppedBy'];
+
+    while (true) {
+      if (pages >= maxPages) {
+        stoppedBy = 'maxPages';
+        break;
+      }
+      if (pagination.maxItems && countItems(merged) >= pagination.maxItems) {
+        stoppedBy = 'maxItems';
+        break;
+      }
+      if (pagination.timeBudget && Date.now() - start >= pagination.timeBudget) {
+        stoppedBy = 'timeBudget';
+        break;
+      }
+
+      if (pagination.infiniteScroll) {
+        // Content stays on the page, so each extraction already holds every item
+        const previousCount = countItems(merged);
+        await this.actions.scrollToBottom();
+        await this.actions.wait(pageDelay);
+        const current = await this.extractData(rules, pageOptions);
+        pages++;
+        if (countItems(current) <= previousCount) {
+          stoppedBy = 'noNewItems';
+          break;
+        }
+        merged = current;
+      } else {
+        // Many sites keep a disabled next control on the last page
+        if (!(await this.actions.isVisible(pagination.nextSelector!)) ||
+          !(await this.isEnabledControl(this.actions.getLastMatch()!.selector))) {
+          stoppedBy = 'noNextPage';
+          break;
+        }
+        const previousUrl = this.page.url();
+        const previousFirstItem = itemSelector ? await this.firstText(itemSelector) : null;
+        await this.actions.click(pagination.nextSelector!, { timeout: options.timeout });
+        await this.waitForPageTurn(previousUrl, itemSelector, previousFirstItem, options.timeout || 30000);
+        await this.actions.wait(pageDelay);
+        const current = await this.extractData(rules, pageOptions);
+        const signature = pageSignature(current);
+        if (seenPages.has(signature)) {
+          stoppedBy = 'noNewItems';
+          break;
+        }
+        seenPages.add(signature);
+        pages++;
+        merged = this.mergePages(merged, current);
+      }
+    }
+
+    if (pagination.maxItems && itemKey && Array.isArray(merged[itemKey])) {
+      merged[itemKey] = merged[itemKey].slice(0, pagination.maxItems);
+    }
+
+    merged._pagination = { pages, itemCount: countItems(merged), stoppedBy };
+
+    if (options.validate ?? hasValidation(rules)) {
+      merged._validation = this.validate(rules, merged);
+    }
+
+    if (options.includeMetadata !== false) {
+      merged._metadata = await this.buildMetadata(rules);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Extract typed data described by a schema from defineSchema. Instead of
+   * silently returning nulls, the result carries a per-field validation report.
+   */
+  async extractSchema<T>(schema: ExtractionSchema<T>, options: ExtractionOptions = {}): Promise<SchemaResult<T>> {
+    const { _metadata, _validation, ...data } = await this.extractData(schema.rules, { ...options, validate: true });
+    return { valid: _validation!.valid, data, validation: _validation!, metadata: _metadata } as SchemaResult<T>;
+  }
+
+  /**
+   * Validate results and log each issue
+   */
+  private validate(rules: ExtractionRule[], data: ExtractedData, failures: Record<string, string> = {}): ValidationReport {
+    const report = validateExtraction(rules, data, failures);
+    for (const issue of report.issues.filter(issue => issue.check !== 'error')) {
+      this.logger.warn(`Validation failed for "${issue.path}": ${issue.message}`, { key: issue.path, check: issue.check });
+    }
+    return report;
+  }
+
+  /**
+   * Publish the outcome of a single extraction rule
+   */
+  private emitRule(rule: ExtractionRule, start: number, value: any, error?: Error): void {
+    const valueCount = Array.isArray(value) ? value.length : value === null || value === undefined ? 0 : 1;
+    this.events.emit('extraction:rule', {
+      key: rule.key,
+      selector: rule.selector,
+      url: this.page.url(),
+      duration: Date.now() - start,
+      success: !error,
+      valueCount,
+      error
+    });
+  }
+
+  /**
+   * Wait until a next-page click took effect: the URL changed (full navigation
+   * or client-side routing) or the first item's text changed (in-place update)
+   */
+  private async waitForPageTurn(
+    previousUrl: string,
+    itemSelector: string | undefined,
+    previousFirstItem: string | null,
+    timeout: number
+  ): Promise<void> {
+    const start = Date.now();
+    while (Date.now() - start < timeout) {
+      if (this.page.url() !== previousUrl) {
+        try {
+          await this.page.waitForLoadState('domcontentloaded', { timeout: Math.max(timeout - (Date.now() - start), 1) });
+        } catch (error) {
+          this.logger.warn('Next page load timeout, continuing with extraction...', { url: this.page.url() });
+        }
+        return;
+      }
+      if (itemSelector && (await this.firstText(itemSelector)) !== previousFirstItem) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    this.logger.warn('Page did not change after clicking next, continuing with extraction...', { url: this.page.url() });
+  }
+
+  /**
+   * Whether the first element matching the selector is neither disabled nor aria-disabled
+   */
+  private async isEnabledControl(selector: string): Promise<boolean> {
+    const control = this.page.locator(selector).first();
+    return (await control.isEnabled()) && (await control.getAttribute('aria-disabled')) !== 'true';
+  }
+
+  /**
+   * Text of the first element matching the selector, or null when there is none
+   */
+  private async firstText(selector: string): Promise<string | null> {
+    try {
+      const element = this.page.locator(selector).first();
+      return (await element.count()) > 0 ? await element.textContent() : null;
+    } catch (error) {
+      // The page may be navigating; treat it as "not changed yet"
+      return null;
+    }
+  }
+
+  /**
+   * Merge one page of results into the accumulated results
+   */
+  private mergePages(previous: ExtractedData, current: ExtractedData): ExtractedData {
+    const merged: ExtractedData = { ...previous };
+    for (const [key, value] of Object.entries(current)) {
+      if (Array.isArray(previous[key]) && Array.isArray(value)) {
+        merged[key] = [...previous[key], ...value];
+      } else if (previous[key] === undefined || previous[key] === null) {
+        merged[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Apply a rule's transform to a single value or to each value of an array.
+   * For container rules the values are the assembled objects, after their fields' own transforms.
+   */
+  private applyTransform(rule: ExtractionRule, value: any): any {
+    if (Array.isArray(value) && rule.skipEmpty) {
+      value = value.filter(v => v !== null);
+    }
+    if (!rule.transform || value === null) {
+      return value;
+    }
+    const transform = resolveTransform(rule.transform);
+    const context = { url: this.page.url() };
+    if (Array.isArray(value)) {
+      return value.map(v => (v === null ? v : transform(v, context)));
+    }
+    return transform(value, context);
+  }
+
+  /**
+   * Extract a container rule: the rule's selector picks container elements and its
+   * fields are extracted relative to each container, recursively.
+   * Returns an array of objects for `multiple` rules, otherwise the first container's object.
+   */
+  private async extractNested(rule: ExtractionRule, scope: Page | Locator, timeout: number): Promise<any> {
+    const containers = scope.locator(rule.selector);
+
+    // Only the top-level container waits; nested containers are already rendered
+    if (scope === this.page) {
+      const start = Date.now();
+      try {
+        await containers.first().waitFor({ state: 'attached', timeout });
+      } catch (error) {
+        this.rethrowUnlessMissing(error, rule, 'extractNested', start);
+        return rule.multiple ? [] : null;
+      }
+    }
+
+    const count = rule.multiple ? await containers.count() : Math.min(await containers.count(), 1);
+    const results: Record<string, any>[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const container = containers.nth(i);
+      const item: Record<string, any> = {};
+
+      for (const field of rule.fields!) {
+        const start = Date.now();
+        try {
+          item[field.key] = this.applyTransform(
+            field,
+            field.fields ? await this.extractNested(field, container, timeout) : await this.extractScoped(field, container)
+          );
+        } catch (error) {
+          this.rethrowUnlessMissing(error, field, 'extractNested', start);
+          item[field.key] = null;
+        }
+      }
+
+      results.push(item);
+    }
+
+    return rule.multiple ? results : (results[0] || null);
+  }
+
+  /**
+   * Extract a field inside a container without waiting for it to appear
+   */
+  private async extractScoped(rule: ExtractionRule, container: Locator): Promise<string | null | (string | null)[]> {
+    const elements = container.locator(rule.selector);
+    const count = await elements.count();
+
+    const read = async (element: Locator): Promise<string | null> => {
+      const value = rule.attribute
+        ? await element.getAttribute(rule.attribute)
+        : await element.textContent();
+      return value?.trim() || null;
+    };
+
+    if (rule.multiple) {
+      const results: (string | null)[] = [];
+      for (let i = 0; i < count; i++) {
+        results.push(await read(elements.nth(i)));
+      }
+      return results;
+    }
+
+    return count > 0 ? await read(elements.first()) : null;
+  }
+
   /**
    * Extract data from a single element
    */
   private async extractSingle(rule: ExtractionRule, timeout: number): Promise<string | null> {
+    const start = Date.now();
     try {
       // Wait for element to exist
-      await this.actions.waitForElement(rule.selector, { timeout });
+      await this.actions.waitForElement(rule.selector, { timeout, expected: true });
 
       if (rule.attribute) {
         return await this.actions.getAttribute(rule.selector, rule.attribute);
@@ -105,6 +446,7 @@ export class DataExtractor {
         return await this.actions.getText(rule.selector);
       }
     } catch (error) {
+      this.rethrowUnlessMissing(error, rule, 'extractSingle', start);
       return null;
     }
   }
@@ -113,6 +455,7 @@ export class DataExtractor {
    * Extract data from multiple elements
    */
   private async extractMultiple(rule: ExtractionRule, timeout: number): Promise<(string | null)[]> {
+    const start = Date.now();
     try {
       const elements = this.page.locator(rule.selector);
       const count = await elements.count();
@@ -131,16 +474,29 @@ export class DataExtractor {
 
           results.push(value?.trim() || null);
         } catch (error) {
+          this.rethrowUnlessMissing(error, rule, 'extractMultiple', start);
           results.push(null);
         }
       }
 
       return results;
     } catch (error) {
+      this.rethrowUnlessMissing(error, rule, 'extractMultiple', start);
       return [];
     }
   }
 
+  /**
+   * A missing element or a timeout is an expected outcome the caller turns into
+   * null or []; anything else, such as a closed page or a navigation, is rethrown
+   */
+  private rethrowUnlessMissing(error: unknown, rule: ExtractionRule, action: string, start: number): void {
+    const failure = toAutomationError(error, { action, selector: rule.selector, url: this.page.url(), elapsed: Date.now() - start });
+    if (failure.kind !== 'selector-not-found' && failure.kind !== 'timeout') {
+      throw failure;
+    }
+  }
+
   /**
    * Build metadata object
    */
@@ -148,16 +504,24 @@ export class DataExtractor {
     const url = await this.actions.executeScript(() => window.location.href);
     const title = await this.actions.executeScript(() => document.title);
 
+    const describe = (rule: ExtractionRule): ExtractionRule => ({
+      key: rule.key,
+      selector: rule.selector,
+      attribute: rule.attribute,
+      multiple: rule.multiple,
+      required: rule.required,
+      pattern: rule.pattern?.toString(),
+      minCount: rule.minCount,
+      maxCount: rule.maxCount,
+      transform: typeof rule.transform === 'function' ? undefined : rule.transform,
+      fields: rule.fields?.map(describe)
+    });
+
     return {
       url,
       title,
       timestamp: new Date().toISOString(),
-      extractionRules: rules.map(rule => ({
-        key: rule.key,
-        selector: rule.selector,
-        attribute: rule.attribute,
-        multiple: rule.multiple
-      }))
+      extractionRules: rules.map(describe)
     };
   }
 
@@ -198,7 +562,8 @@ export class DataExtractor {
   }
 
   /**
-   * Extract table data
+   * Extract table data. `structuredTable` holds the first matching table;
+   * `tables` holds every matching table, including nested ones.
    */
   async extractTableData(tableSelector: string = 'table', options: ExtractionOptions = {}): Promise<ExtractedData> {
     const tableRules: ExtractionRule[] = [
@@ -211,41 +576,29 @@ export class DataExtractor {
 
     // Enhanced table extraction with structured data
     try {
-      const structuredTable = await this.page.evaluate((selector) => {
-        const table = document.querySelector(selector);
-        if (!table) return null;
-
-        const headers = Array.from(table.querySelectorAll('th')).map(th => th.textContent?.trim() || '');
-        const rows = Array.from(table.querySelectorAll('tr')).slice(headers.length > 0 ? 1 : 0);
-        
-        const data = rows.map(row => {
-          const cells = Array.from(row.querySelectorAll('td, th')).map(cell => cell.textContent?.trim() || '');
-          if (headers.length > 0 && headers.length === cells.length) {
-            const rowData: any = {};
-            headers.forEach((header, index) => {
-              rowData[header] = cells[index];
-            });
-            return rowData;
-          }
-          return cells;
-        });
-
-        return {
-          headers,
-          data,
-          rowCount: rows.length,
-          columnCount: headers.length
-        };
-      }, tableSelector);
-
-      basicData.structuredTable = structuredTable;
+      const tables = await this.extractTables(tableSelector);
+      const first = tables[0];
+      basicData.structuredTable = first
+        ? { headers: first.columns, data: first.records, rowCount: first.records.length, columnCount: first.columns.length }
+        : null;
+      basicData.tables = tables;
     } catch (error) {
-      console.warn('Failed to extract structured table data:', error);
+      this.logger.warn('Failed to extract structured table data', { error: error instanceof Error ? error.message : String(error) });
     }
 
     return basicData;
   }
 
+  /**
+   * Parse every table matching the selector (or inside elements matching it)
+   * into column-keyed records. Spans are expanded, stacked header rows are
+   * joined into column names, and columns become numbers, booleans or ISO
+   * dates when every value fits.
+   */
+  async extractTables(selector: string = 'table', options: TableOptions = {}): Promise<ParsedTable[]> {
+    return await extractTables(this.page, selector, options);
+  }
+
   /**
    * Extract social media data
    */
@@ -264,6 +617,18 @@ export class DataExtractor {
     return await this.extractData(socialRules, options);
   }
 
+  /**
+   * Extract JSON-LD, microdata and RDFa items grouped by schema.org type,
+   * e.g. `(await extractor.extractStructuredData()).types.Product`
+   */
+  async extractStructuredData(options: StructuredDataOptions = {}): Promise<StructuredData> {
+    const data = await extractStructuredData(this.page, options);
+    for (const error of data.errors) {
+      this.logger.warn(`Skipped invalid structured data: ${error}`, { url: this.page.url() });
+    }
+    return data;
+  }
+
   /**
    * Convert extracted data to JSON string
    */
@@ -272,11 +637,32 @@ export class DataExtractor {
   }
 
   /**
-   * Save extracted data to a JSON file
+   * Convert extracted data to CSV, flattening nested and array fields
+   */
+  toCsv(data: ExtractedData | ExtractedData[], options: ExportOptions = {}): string {
+    return toCsv(data, options);
+  }
+
+  /**
+   * Convert extracted data to newline-delimited JSON
+   */
+  toNdjson(data: ExtractedData | ExtractedData[], options: ExportOptions = {}): string {
+    return toNdjson(data, options);
+  }
+
+  /**
+   * Convert extracted data to a Markdown table
+   */
+  toMarkdown(data: ExtractedData | ExtractedData[], options: ExportOptions = {}): string {
+    return toMarkdown(data, options);
+  }
+
+  /**
+   * Save extracted data to a file. The format follows the extension (.json,
+   * .csv, .ndjson/.jsonl, .md) unless options.format is set; use
+   * options.append to add to an existing file in batch runs.
    */
-  async saveToFile(data: ExtractedData, filePath: string): Promise<void> {
-    const fs = await import('fs');
-    const jsonString = this.toJSON(data);
-    fs.writeFileSync(filePath, jsonString, 'utf8');
+  async saveToFile(data: ExtractedData | ExtractedData[], filePath: string, options: ExportOptions = {}): Promise<void> {
+    writeExport(data, filePath, options);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,229 @@
+import { DomNode } from './DomExtractor';
+
+/**
+ * A single difference between two DOM trees. Paths name each node by tag and
+ * 1-based position among same-tag siblings, e.g. "html[1]/body[1]/div[2]/#text[1]".
+ * Changes on kept nodes use the path in the newer tree.
+ */
+export type DomChange =
+  | { type: 'added'; path: string; node: DomNode }
+  | { type: 'removed'; path: string; node: DomNode }
+  | { type: 'moved'; path: string; from: string; node: DomNode }
+  | { type: 'attribute-changed'; path: string; attribute: string; oldValue: string | null; newValue: string | null }
+  | { type: 'text-changed'; path: string; oldText: string; newText: string };
+
+export type DomChangeType = DomChange['type'];
+
+/**
+ * Path segment for the child at `index`, counting earlier siblings with the same tag
+ */
+export function pathSegment(siblings: DomNode[], index: number): string {
+  const tagName = siblings[index].tagName;
+  let position = 1;
+  for (let i = 0; i < index; i++) {
+    if (siblings[i].tagName === tagName) {
+      position++;
+    }
+  }
+  return `${tagName}[${position}]`;
+}
+
+/**
+ * Find the node at a path produced by diffDomTrees, DomExtractor.watch or an
+ * accessibility node's domPath. Returns null if the tree has no such node.
+ */
+export function nodeAtPath(root: DomNode, path: string): DomNode | null {
+  const [first, ...rest] = path.split('/');
+  if (first !== `${root.tagName}[1]`) {
+    return null;
+  }
+
+  let node: DomNode = root;
+  for (const part of rest) {
+    const child = node.children.find((_child, index) => pathSegment(node.children, index) === part);
+    if (!child) {
+      return null;
+    }
+    node = child;
+  }
+  return node;
+}
+
+// Structural fingerprint of a subtree; depth is left out so moved subtrees still match
+function signature(node: DomNode): string {
+  return JSON.stringify(node, (key, value) => (key === 'depth' ? undefined : value));
+}
+
+// Stable identity for elements that carry one
+function identity(node: DomNode): string | null {
+  const id = node.attributes.id || node.attributes['data-testid'];
+  return id ? `${node.tagName}#${id}` : null;
+}
+
+/**
+ * Pair up old and new children: first by id/data-testid, then by identical
+ * subtree, then by tag in document order. Returns [oldIndex, newIndex] pairs.
+ */
+function matchChildren(before: DomNode[], after: DomNode[]): [number, number][] {
+  const pairs: [number, number][] = [];
+  const usedBefore = new Set<number>();
+  const usedAfter = new Set<number>();
+  const pair = (i: number, j: number) => {
+    pairs.push([i, j]);
+    usedBefore.add(i);
+    usedAfter.add(j);
+  };
+
+  const byIdentity = new Map<string, number>();
+  after.forEach((node, j) => {
+    const key = identity(node);
+    if (key) {
+      byIdentity.set(key, byIdentity.has(key) ? -1 : j);  // -1 marks duplicates
+    }
+  });
+  before.forEach((node, i) => {
+    const key = identity(node);
+    const j = key ? byIdentity.get(key) : undefined;
+    if (j !== undefined && j >= 0 && !usedAfter.has(j)) {
+      pair(i, j);
+    }
+  });
+
+  const afterSignatures = after.map(signature);
+  before.forEach((node, i) => {
+    if (usedBefore.has(i)) {
+      return;
+    }
+    const nodeSignature = signature(node);
+    const j = afterSignatures.findIndex((candidate, index) => !usedAfter.has(index) && candidate === nodeSignature);
+    if (j >= 0) {
+      pair(i, j);
+    }
+  });
+
+  before.forEach((node, i) => {
+    if (usedBefore.has(i) || identity(node)) {
+      return;
+    }
+    const j = after.findIndex((candidate, index) => !usedAfter.has(index) && !identity(candidate) && candidate.tagName === node.tagName);
+    if (j >= 0) {
+      pair(i, j);
+    }
+  });
+
+  return pairs.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Indices (into `values`) of a longest increasing subsequence
+ */
+function longestIncreasing(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+
+  const kept = new Set<number>();
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i >= 0; i = previous[i]) {
+    kept.add(i);
+  }
+  return kept;
+}
+
+function diffNode(before: DomNode, after: DomNode, from: string, path: string, changes: DomChange[]): void {
+  const names = new Set([...Object.keys(before.attributes), ...Object.keys(after.attributes)]);
+  for (const attribute of names) {
+    const oldValue = attribute in before.attributes ? before.attributes[attribute] : null;
+    const newValue = attribute in after.attributes ? after.attributes[attribute] : null;
+    if (oldValue !== newValue) {
+      changes.push({ type: 'attribute-changed', path, attribute, oldValue, newValue });
+    }
+  }
+
+  // Element text is the sum of its children's, so only leaves report text changes
+  const isLeaf = before.children.length === 0 && after.children.length === 0;
+  if (isLeaf && (before.textContent || '') !== (after.textContent || '')) {
+    changes.push({ type: 'text-changed', path, oldText: before.textContent || '', newText: after.textContent || '' });
+  }
+
+  const pairs = matchChildren(before.children, after.children);
+  const inOrder = longestIncreasing(pairs.map(([, j]) => j));
+  const matchedBefore = new Set(pairs.map(([i]) => i));
+  const matchedAfter = new Set(pairs.map(([, j]) => j));
+
+  before.children.forEach((child, i) => {
+    if (!matchedBefore.has(i)) {
+      changes.push({ type: 'removed', path: `${from}/${pathSegment(before.children, i)}`, node: child });
+    }
+  });
+
+  pairs.forEach(([i, j], k) => {
+    const childFrom = `${from}/${pathSegment(before.children, i)}`;
+    const childPath = `${path}/${pathSegment(after.children, j)}`;
+    if (!inOrder.has(k)) {
+      changes.push({ type: 'moved', path: childPath, from: childFrom, node: after.children[j] });
+    }
+    diffNode(before.children[i], after.children[j], childFrom, childPath, changes);
+  });
+
+  after.children.forEach((child, j) => {
+    if (!matchedAfter.has(j)) {
+      changes.push({ type: 'added', path: `${path}/${pathSegment(after.children, j)}`, node: child });
+    }
+  });
+}
+
+/**
+ * Compare two DomNode trees, e.g. snapshots taken before and after a click.
+ * A subtree removed in one place and added unchanged in another is reported
+ * as a single move.
+ */
+export function diffDomTrees(before: DomNode, after: DomNode): DomChange[] {
+  const changes: DomChange[] = [];
+  const root = `${after.tagName}[1]`;
+
+  if (before.tagName !== after.tagName) {
+    return [
+      { type: 'removed', path: `${before.tagName}[1]`, node: before },
+      { type: 'added', path: root, node: after }
+    ];
+  }
+  diffNode(before, after, root, root, changes);
+
+  // Turn removed + added pairs of the same subtree into moves between parents
+  const added = new Map<string, number[]>();
+  changes.forEach((change, index) => {
+    if (change.type === 'added') {
+      const key = signature(change.node);
+      added.set(key, [...(added.get(key) || []), index]);
+    }
+  });
+  const dropped = new Set<number>();
+  changes.forEach((change, index) => {
+    if (change.type !== 'removed') {
+      return;
+    }
+    const candidates = added.get(signature(change.node));
+    const target = candidates?.shift();
+    if (target !== undefined) {
+      const addition = changes[target] as Extract<DomChange, { type: 'added' }>;
+      changes[target] = { type: 'moved', path: addition.path, from: change.path, node: addition.node };
+      dropped.add(index);
+    }
+  });
+
+  return changes.filter((_change, index) => !dropped.has(index));
+}
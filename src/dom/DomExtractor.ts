@@ -1,5 +1,12 @@
 // Import the Page type from the playwright library - this represents a browser page
-import { Page } from 'playwright';
+import { ElementHandle, Frame, Page } from 'playwright';
+import { observersFor } from '../events/AutomationEvents';
+import { Logger, consoleLogger } from '../logging/Logger';
+import { DomChange, diffDomTrees, nodeAtPath } from './DomDiff';
+import { AccessibilityNode, accessibilityTreeToString, extractAccessibilityTree } from './AccessibilityTree';
+import { CompactDom, compactDomToString, extractCompactDom } from './CompactDom';
+import { STABLE_ATTRIBUTES } from './Selectors';
+import { DomTransform, applyDomTransforms } from './DomTransforms';
 
 // Define the structure for a DOM node in our tree representation
 export interface DomNode {
@@ -8,6 +15,35 @@ export interface DomNode {
   textContent?: string;               // Optional text content of the element (undefined if no text)
   children: DomNode[];                // Array of child DOM nodes (recursive structure)
   depth: number;                      // How deep this node is in the DOM tree (0 = root)
+  shadowHost?: boolean;               // True if the element hosts an open shadow root (first child '#shadow-root')
+  frameUrl?: string;                  // URL of the frame, set on the '#document' node under an iframe
+  layout?: DomLayout;                 // Geometry and visibility, set on elements when includeLayout is on
+  selector?: string;                  // Unique CSS selector, set on elements when includeSelectors is on
+  xpath?: string;                     // Unique XPath (not available inside shadow roots)
+}
+
+// Why an element is or isn't visible to a user, checked in this order
+export type VisibilityReason =
+  | 'visible'
+  | 'display-none'                    // Only seen with includeHidden
+  | 'visibility-hidden'               // Only seen with includeHidden
+  | 'opacity-zero'                    // The element or an ancestor has opacity 0
+  | 'zero-size'
+  | 'clipped'                         // clip / clip-path hides the whole box
+  | 'off-screen'                      // Positioned outside the page, e.g. left: -9999px
+  | 'covered';                        // Another element is on top of its center point
+
+// Layout metadata attached to element nodes
+export interface DomLayout {
+  boundingBox: { x: number; y: number; width: number; height: number }; // Relative to the frame's viewport
+  inViewport: boolean;                // Any part of the box is inside the viewport
+  visible: boolean;                   // visibilityReason === 'visible'
+  visibilityReason: VisibilityReason;
+  coveredBy?: string;                 // Tag, id and classes of the covering element
+  position: string;                   // Computed CSS position
+  zIndex: number | null;              // Computed z-index, null for 'auto'
+  stackingContext: boolean;           // True if the element starts a new stacking context
+  isInteractive: boolean;             // Link, button, form field, ARIA widget, click handler or pointer cursor
 }
 
 // Define configuration options for DOM extraction behavior
@@ -17,15 +53,232 @@ export interface DomExtractionOptions {
   excludeTags?: string[];             // Array of HTML tag names to skip during extraction
   includeTextNodes?: boolean;         // Whether to include text nodes as separate nodes
   includeComments?: boolean;          // Whether to include HTML comment nodes
+  includeShadowDom?: boolean;         // Whether to descend into open shadow roots
+  includeFrames?: boolean;            // Whether to descend into iframe documents
+  includeLayout?: boolean;            // Whether to attach bounding boxes and visibility metadata (slower)
+  includeSelectors?: boolean;         // Whether to attach a unique CSS selector and XPath to each element
+  include?: (node: DomNode) => boolean; // Return false to drop a node but keep its children
+  prune?: (node: DomNode) => boolean; // Return true to drop a node together with its subtree
+  attributeAllowList?: string[];      // Keep only these attributes; 'data-*' matches a prefix
+  attributeDenyList?: string[];       // Drop these attributes; 'data-*' matches a prefix
+  maxTextLength?: number;             // Truncate text content longer than this many characters
+  transforms?: DomTransform[];        // Applied bottom-up after filtering, e.g. collapseWrappers()
+}
+
+// Options for watching a page or subtree for changes
+export interface DomWatchOptions {
+  selector?: string;                  // Only watch this element's subtree (default: the whole document)
+  attributes?: boolean;               // Report attribute changes (default: true)
+  text?: boolean;                     // Report text changes (default: true)
+}
+
+// Handle returned by watch(); call stop() to disconnect the observer
+export interface DomSubscription {
+  stop(): Promise<void>;
+}
+
+// Settings passed into the page for the mutation watcher
+interface WatcherConfig {
+  binding: string;
+  id: string;
+  selector: string | null;
+  attributes: boolean;
+  text: boolean;
+  maxDepth: number;
+  includeHidden: boolean;
+  excludeTags: string[];
+  includeTextNodes: boolean;
+  includeComments: boolean;
+}
+
+// Counter for unique binding names, since a page binding cannot be removed
+let watcherCount = 0;
+
+/**
+ * Runs inside the page: observes mutations under the root and reports them as
+ * DomChange objects through the exposed binding. Installed both immediately and
+ * as an init script, so the watch survives navigations. The binding answers
+ * whether the watch is still active, so a stopped watch is not reinstalled.
+ */
+function installMutationWatcher(config: WatcherConfig): void {
+  const win = window as any;
+  win.__automationDomWatchers = win.__automationDomWatchers || {};
+  if (win.__automationDomWatchers[config.id]) {
+    return;
+  }
+
+  const start = () => {
+    const root: Element | null = config.selector ? document.querySelector(config.selector) : document.documentElement;
+    if (!root) {
+      return;
+    }
+
+    // Same filters as the extraction walker, so paths match diff() and nodeAtPath
+    const isHidden = (element: Element) => {
+      // Detached nodes have no computed style; they were tracked when they were removed
+      if (config.includeHidden || !(element instanceof HTMLElement) || !element.isConnected) {
+        return false;
+      }
+      const style = window.getComputedStyle(element);
+      return style.display === 'none' || style.visibility === 'hidden';
+    };
+    const isTracked = (node: Node) =>
+      node.nodeType === 1
+        ? !config.excludeTags.includes((node as Element).tagName.toLowerCase()) && !isHidden(node as Element)
+        : node.nodeType === 3
+          ? config.includeTextNodes && Boolean(node.textContent?.trim())
+          : node.nodeType === 8 && config.includeComments;
+    const nameOf = (node: Node) =>
+      node.nodeType === 1 ? (node as Element).tagName.toLowerCase() : node.nodeType === 3 ? '#text' : '#comment';
+
+    // Same path format as diffDomTrees: tag and 1-based position among same-tag siblings
+    const segment = (node: Node, previous: Node | null, offset = 0) => {
+      let position = 1 + offset;
+      for (let sibling = previous; sibling; sibling = sibling.previousSibling) {
+        if (isTracked(sibling) && nameOf(sibling) === nameOf(node)) {
+          position++;
+        }
+      }
+      return `${nameOf(node)}[${position}]`;
+    };
+    const pathOf = (node: Node): string => {
+      if (node === root || !node.parentNode) {
+        return `${nameOf(node)}[1]`;
+      }
+      return `${pathOf(node.parentNode)}/${segment(node, node.previousSibling)}`;
+    };
+    const depthOf = (path: string) => path.split('/').length - 1;
+    // Skipped elements drop their whole subtree from the extracted tree
+    const inTree = (node: Node) => {
+      for (let current: Node | null = node; current && current !== root; current = current.parentNode) {
+        if (!isTracked(current)) {
+          return false;
+        }
+      }
+      return true;
+    };
+
+    const serialize = (node: Node, depth: number): any => {
+      if (node.nodeType !== 1) {
+        return { tagName: nameOf(node), attributes: {}, textContent: node.nodeType === 3 ? node.textContent?.trim() : node.textContent, children: [], depth };
+      }
+      const element = node as Element;
+      const attributes: Record<string, string> = {};
+      for (let i = 0; i < element.attributes.length; i++) {
+        attributes[element.attributes[i].name] = element.attributes[i].value;
+      }
+      const children: any[] = [];
+      if (depth < config.maxDepth) {
+        element.childNodes.forEach(child => {
+          if (isTracked(child)) {
+            children.push(serialize(child, depth + 1));
+          }
+        });
+      }
+      return {
+        tagName: nameOf(element),
+        attributes,
+        textContent: config.includeTextNodes ? element.textContent?.trim() : undefined,
+        children,
+        depth
+      };
+    };
+
+    const observer = new MutationObserver(records => {
+      const changes: any[] = [];
+      const removed = new Map<Node, any>();
+
+      for (const record of records) {
+        if (!inTree(record.target)) {
+          continue;
+        }
+        if (record.type === 'attributes' && record.attributeName) {
+          changes.push({
+            type: 'attribute-changed',
+            path: pathOf(record.target),
+            attribute: record.attributeName,
+            oldValue: record.oldValue,
+            newValue: (record.target as Element).getAttribute(record.attributeName)
+          });
+        } else if (record.type === 'characterData') {
+          changes.push({
+            type: 'text-changed',
+            path: pathOf(record.target),
+            oldText: (record.oldValue || '').trim(),
+            newText: (record.target.textContent || '').trim()
+          });
+        } else if (record.type === 'childList') {
+          const parentPath = pathOf(record.target);
+          const counts: Record<string, number> = {};
+          record.removedNodes.forEach(node => {
+            if (!isTracked(node)) {
+              return;
+            }
+            // Detached nodes have no siblings, so count from where they used to be
+            const offset = counts[nameOf(node)] || 0;
+            counts[nameOf(node)] = offset + 1;
+            const path = `${parentPath}/${segment(node, record.previousSibling, offset)}`;
+            const change = { type: 'removed', path, node: serialize(node, depthOf(path)) };
+            removed.set(node, change);
+            changes.push(change);
+          });
+          record.addedNodes.forEach(node => {
+            if (!isTracked(node) || !node.isConnected) {
+              return;
+            }
+            const path = pathOf(node);
+            const earlier = removed.get(node);
+            if (earlier) {
+              changes.splice(changes.indexOf(earlier), 1);
+              changes.push({ type: 'moved', path, from: earlier.path, node: serialize(node, depthOf(path)) });
+            } else {
+              changes.push({ type: 'added', path, node: serialize(node, depthOf(path)) });
+            }
+          });
+        }
+      }
+
+      if (changes.length > 0) {
+        win[config.binding](changes).then((active: boolean) => {
+          if (!active) {
+            observer.disconnect();
+          }
+        });
+      }
+    });
+
+    win.__automationDomWatchers[config.id] = observer;
+    win[config.binding]([]).then((active: boolean) => {
+      if (active && win.__automationDomWatchers[config.id] === observer) {
+        observer.observe(root, {
+          childList: true,
+          subtree: true,
+          attributes: config.attributes,
+          attributeOldValue: config.attributes,
+          characterData: config.text,
+          characterDataOldValue: config.text
+        });
+      }
+    });
+  };
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', start, { once: true });
+  } else {
+    start();
+  }
 }
 
 // Main class for extracting and processing DOM trees from web pages
 export class DomExtractor {
-  // Private property to store the configuration options with all properties required
-  private options: Required<DomExtractionOptions>;
+  // Private property to store the configuration options with all properties required (except the predicates)
+  private options: Required<Omit<DomExtractionOptions, 'include' | 'prune'>> & Pick<DomExtractionOptions, 'include' | 'prune'>;
+  // Logger given to the constructor; otherwise the page's browser logger is used
+  private logger?: Logger;
 
   // Constructor that initializes the extractor with default or custom options
-  constructor(options: DomExtractionOptions = {}) {
+  constructor(options: DomExtractionOptions = {}, logger?: Logger) {
+    this.logger = logger;
     // Set default values and merge with any provided options
     this.options = {
       includeHidden: false,           // Default: skip hidden elements
@@ -33,161 +286,563 @@ export class DomExtractor {
       excludeTags: ['script', 'style'], // Default: skip script and style tags
       includeTextNodes: true,         // Default: include text nodes
       includeComments: false,         // Default: skip comment nodes
+      includeShadowDom: false,        // Default: skip shadow roots
+      includeFrames: false,           // Default: skip iframe documents
+      includeLayout: false,           // Default: no layout metadata
+      includeSelectors: false,        // Default: no generated selectors
+      attributeAllowList: [],         // Default: keep all attributes
+      attributeDenyList: [],          // Default: drop no attributes
+      maxTextLength: 0,               // Default: no truncation
+      transforms: [],                 // Default: no transforms
       ...options                      // Spread operator merges provided options over defaults
     };
   }
 
   /**
    * Extract the DOM tree from a Playwright page
-   * This method runs JavaScript in the browser context to traverse the DOM
+   * This method runs JavaScript in the browser context to traverse the DOM,
+   * including open shadow roots and the documents of child frames
    */
   async extractFromPage(page: Page): Promise<DomNode> {
+    const tree = (await this.extractFromFrame(page.mainFrame(), null, 0))!;
+    return this.shapeTree(tree);
+  }
+
+  /**
+   * Extract DOM tree from a specific CSS selector
+   * This method finds an element matching the selector and extracts its subtree.
+   * Selectors pierce open shadow roots; use ">>>" to step into an iframe, e.g.
+   * "iframe#checkout >>> form.card".
+   */
+  async extractFromSelector(page: Page, selector: string): Promise<DomNode | null> {
+    const parts = selector.split('>>>').map(part => part.trim());
+    let frame: Frame = page.mainFrame();
+
+    for (const frameSelector of parts.slice(0, -1)) {
+      const frameElement = await frame.$(frameSelector);
+      const childFrame = frameElement ? await frameElement.contentFrame() : null;
+      if (!childFrame) {
+        this.loggerFor(page).warn(`No frame matches "${frameSelector}" in "${selector}", nothing to extract`, { url: page.url() });
+        return null;
+      }
+      frame = childFrame;
+    }
+
+    const element = await frame.$(parts[parts.length - 1]);
+    if (!element) {
+      this.loggerFor(page).warn(`No element matches "${selector}", nothing to extract`, { url: page.url() });
+      return null;
+    }
+
+    const tree = await this.extractFromFrame(frame, element, 0);
+    return tree ? this.shapeTree(tree) : null;
+  }
+
+  /**
+   * Apply the include/prune predicates and transforms to an extracted tree.
+   * The root is always kept, and depths are renumbered when nodes were lifted.
+   */
+  private shapeTree(root: DomNode): DomNode {
+    const { include, prune, transforms } = this.options;
+    if (!include && !prune && transforms.length === 0) {
+      return root;
+    }
+
+    const filter = (node: DomNode): DomNode[] => {
+      if (prune?.(node)) {
+        return [];
+      }
+      const children = node.children.flatMap(filter);
+      return include && !include(node) ? children : [{ ...node, children }];
+    };
+
+    const filtered = { ...root, children: root.children.flatMap(filter) };
+    const shaped = applyDomTransforms(filtered, transforms) || { ...filtered, children: [] };
+
+    const renumber = (node: DomNode, depth: number): DomNode => ({
+      ...node,
+      depth,
+      children: node.children.map(child => renumber(child, depth + 1))
+    });
+    return renumber(shaped, root.depth);
+  }
+
+  /**
+   * Extract a frame's document (or one element in it) starting at `baseDepth`,
+   * then attach each child frame's document under its iframe element
+   */
+  private async extractFromFrame(frame: Frame, element: ElementHandle | null, baseDepth: number): Promise<DomNode | null> {
     // Create a simple plain object to avoid serialization issues
     const extractionOptions = {
       includeHidden: this.options.includeHidden,
       maxDepth: this.options.maxDepth,
       excludeTags: this.options.excludeTags.slice(), // Create a copy of the array
       includeTextNodes: this.options.includeTextNodes,
-      includeComments: this.options.includeComments
+      includeComments: this.options.includeComments,
+      includeShadowDom: this.options.includeShadowDom,
+      includeLayout: this.options.includeLayout,
+      includeSelectors: this.options.includeSelectors,
+      attributeAllowList: this.options.attributeAllowList.slice(),
+      attributeDenyList: this.options.attributeDenyList.slice(),
+      maxTextLength: this.options.maxTextLength,
+      stableAttributes: STABLE_ATTRIBUTES.slice(),
+      baseDepth
     };
 
-    const domTree = await page.evaluate((options) => {
-      function extractNode(element: any, depth: number = 0): any {
-        if (depth > options.maxDepth) {
-          return null;
+    // Handles of the iframe elements, so the page can tell which node hosts which frame
+    const childFrames = this.options.includeFrames ? frame.childFrames() : [];
+    const frameElements: ElementHandle[] = [];
+    for (const childFrame of childFrames) {
+      frameElements.push(await childFrame.frameElement());
+    }
+
+    const domTree: DomNode | null = await frame.evaluate(({ root, frameElements, options }) => {
+      const WIDGET_ROLES = [
+        'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+        'menuitemradio', 'option', 'textbox', 'searchbox', 'combobox', 'slider', 'spinbutton', 'treeitem'
+      ];
+
+      // Opacity multiplies down the tree, so walk up through ancestors and shadow hosts
+      function effectiveOpacity(element: any): number {
+        let opacity = 1;
+        for (let current = element; current && current.nodeType === 1; ) {
+          opacity *= parseFloat(window.getComputedStyle(current).opacity);
+          current = current.parentElement || current.getRootNode()?.host;
         }
+        return opacity;
+      }
 
-        if (options.excludeTags.includes(element.tagName.toLowerCase())) {
-          return null;
+      function isInteractive(element: any, style: CSSStyleDeclaration): boolean {
+        const tag = element.tagName.toLowerCase();
+        const role = element.getAttribute('role');
+        if (element.disabled || element.getAttribute('aria-disabled') === 'true') return false;
+        if (tag === 'a') return element.hasAttribute('href');
+        if (tag === 'input') return element.type !== 'hidden';
+        if (['button', 'select', 'textarea', 'summary'].includes(tag)) return true;
+        if (role && WIDGET_ROLES.includes(role)) return true;
+        if (element.hasAttribute('onclick') || element.isContentEditable) return true;
+        const tabIndex = element.getAttribute('tabindex');
+        if (tabIndex !== null && Number(tabIndex) >= 0) return true;
+        // A pointer cursor that isn't just inherited from a clickable parent
+        return style.cursor === 'pointer' && (!element.parentElement || window.getComputedStyle(element.parentElement).cursor !== 'pointer');
+      }
+
+      function describe(element: any): string {
+        const id = element.id ? `#${element.id}` : '';
+        const classes = typeof element.className === 'string' && element.className.trim()
+          ? `.${element.className.trim().split(/\s+/).slice(0, 2).join('.')}`
+          : '';
+        return `${element.tagName.toLowerCase()}${id}${classes}`;
+      }
+
+      const cssEscape = (value: string) => (window as any).CSS && CSS.escape ? CSS.escape(value) : value.replace(/["\\]/g, '\\$&');
+      const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+      const isUnique = (scope: any, selector: string) => {
+        try {
+          return scope.querySelectorAll(selector).length === 1;
+        } catch (error) {
+          return false;
         }
+      };
 
-        if (!options.includeHidden && element instanceof HTMLElement) {
-          const style = window.getComputedStyle(element);
-          if (style.display === 'none' || style.visibility === 'hidden') {
-            return null;
+      // Prefer id and stable attributes, then an nth-of-type chain anchored at the nearest unique id
+      function uniqueSelector(element: any): string {
+        const scope = element.getRootNode();
+        const tag = element.tagName.toLowerCase();
+
+        if (element.id && isUnique(scope, `#${cssEscape(element.id)}`)) {
+          return `#${cssEscape(element.id)}`;
+        }
+        for (const attr of options.stableAttributes) {
+          const value = element.getAttribute(attr);
+          if (value && isUnique(scope, `${tag}[${attr}=${quote(value)}]`)) {
+            return `${tag}[${attr}=${quote(value)}]`;
           }
         }
 
-        const attributes: any = {};
-        for (let i = 0; i < element.attributes.length; i++) {
-          const attr = element.attributes[i];
-          attributes[attr.name] = attr.value;
+        const parts: string[] = [];
+        for (let current = element; current && current.nodeType === 1; current = current.parentElement) {
+          if (current !== element && current.id && isUnique(scope, `#${cssEscape(current.id)}`)) {
+            parts.unshift(`#${cssEscape(current.id)}`);
+            break;
+          }
+          const currentTag = current.tagName.toLowerCase();
+          const parent = current.parentElement;
+          const sameTag = parent ? Array.from(parent.children).filter((child: any) => child.tagName === current.tagName) : [];
+          parts.unshift(sameTag.length > 1 ? `${currentTag}:nth-of-type(${sameTag.indexOf(current) + 1})` : currentTag);
+        }
+        return parts.join(' > ');
+      }
+
+      function uniqueXPath(element: any): string | undefined {
+        if (element.getRootNode() !== document) {
+          return undefined;
+        }
+        const count = (xpath: string) => document.evaluate(`count(${xpath})`, document, null, XPathResult.NUMBER_TYPE, null).numberValue;
+        const literal = (value: string) => (value.includes('"') ? `'${value}'` : `"${value}"`);
+        const tag = element.tagName.toLowerCase();
+
+        if (element.id && !(element.id.includes('"') && element.id.includes("'")) && count(`//*[@id=${literal(element.id)}]`) === 1) {
+          return `//*[@id=${literal(element.id)}]`;
+        }
+        for (const attr of options.stableAttributes) {
+          const value = element.getAttribute(attr);
+          if (value && !(value.includes('"') && value.includes("'")) && count(`//${tag}[@${attr}=${literal(value)}]`) === 1) {
+            return `//${tag}[@${attr}=${literal(value)}]`;
+          }
+        }
+
+        const parts: string[] = [];
+        for (let current = element; current && current.nodeType === 1; current = current.parentElement) {
+          const parent = current.parentElement;
+          const sameTag = parent ? Array.from(parent.children).filter((child: any) => child.tagName === current.tagName) : [current];
+          parts.unshift(`${current.tagName.toLowerCase()}[${sameTag.indexOf(current) + 1}]`);
+        }
+        return `/${parts.join('/')}`;
+      }
+
+      function layoutOf(element: any): any {
+        const style = window.getComputedStyle(element);
+        const rect = element.getBoundingClientRect();
+        const viewportWidth = window.innerWidth;
+        const viewportHeight = window.innerHeight;
+        const inViewport = rect.width > 0 && rect.height > 0 &&
+          rect.right > 0 && rect.bottom > 0 && rect.left < viewportWidth && rect.top < viewportHeight;
+
+        let visibilityReason = 'visible';
+        let coveredBy: string | undefined;
+        if (style.display === 'none') {
+          visibilityReason = 'display-none';
+        } else if (style.visibility === 'hidden' || style.visibility === 'collapse') {
+          visibilityReason = 'visibility-hidden';
+        } else if (effectiveOpacity(element) === 0) {
+          visibilityReason = 'opacity-zero';
+        } else if (rect.width === 0 || rect.height === 0) {
+          visibilityReason = 'zero-size';
+        } else if (/rect\(0(px)?,? 0(px)?,? 0(px)?,? 0(px)?\)/.test(style.clip) || style.clipPath === 'inset(50%)') {
+          visibilityReason = 'clipped';
+        } else if (rect.right + window.scrollX <= 0 || rect.bottom + window.scrollY <= 0) {
+          visibilityReason = 'off-screen';
+        } else if (inViewport) {
+          // Hit-test the center of the visible part of the box
+          const x = (Math.max(rect.left, 0) + Math.min(rect.right, viewportWidth)) / 2;
+          const y = (Math.max(rect.top, 0) + Math.min(rect.bottom, viewportHeight)) / 2;
+          const rootNode = element.getRootNode();
+          const hit = (rootNode.elementFromPoint ? rootNode : document).elementFromPoint(x, y);
+          if (hit && hit !== element && !element.contains(hit) && !hit.contains(element)) {
+            visibilityReason = 'covered';
+            coveredBy = describe(hit);
+          }
         }
 
+        const zIndex = style.zIndex === 'auto' ? null : Number(style.zIndex);
+        const stackingContext = (style.position !== 'static' && zIndex !== null) ||
+          style.position === 'fixed' || style.position === 'sticky' ||
+          parseFloat(style.opacity) < 1 || style.transform !== 'none' || style.filter !== 'none' ||
+          style.isolation === 'isolate';
+
+        const layout: any = {
+          boundingBox: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+          inViewport,
+          visible: visibilityReason === 'visible',
+          visibilityReason,
+          position: style.position,
+          zIndex,
+          stackingContext,
+          isInteractive: isInteractive(element, style)
+        };
+        if (coveredBy) {
+          layout.coveredBy = coveredBy;
+        }
+        return layout;
+      }
+
+      const matches = (name: string, patterns: string[]) =>
+        patterns.some(pattern => (pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern));
+      const keepAttribute = (name: string) =>
+        (options.attributeAllowList.length === 0 || matches(name, options.attributeAllowList)) && !matches(name, options.attributeDenyList);
+      const truncate = (text: string | undefined) =>
+        text && options.maxTextLength > 0 && text.length > options.maxTextLength ? `${text.slice(0, options.maxTextLength)}…` : text;
+
+      function extractChildren(parent: any, depth: number): any[] {
         const children: any[] = [];
-        
-        for (let i = 0; i < element.childNodes.length; i++) {
-          const child = element.childNodes[i];
-          
+
+        for (let i = 0; i < parent.childNodes.length; i++) {
+          const child = parent.childNodes[i];
+
           if (child.nodeType === 1) { // ELEMENT_NODE
-            const childNode = extractNode(child, depth + 1);
+            const childNode = extractNode(child, depth);
             if (childNode) {
               children.push(childNode);
             }
           } else if (child.nodeType === 3 && options.includeTextNodes) { // TEXT_NODE
-            const textContent = child.textContent?.trim();
+            const textContent = truncate(child.textContent?.trim());
             if (textContent) {
               children.push({
                 tagName: '#text',
                 attributes: {},
                 textContent,
                 children: [],
-                depth: depth + 1
+                depth
               });
             }
           } else if (child.nodeType === 8 && options.includeComments) { // COMMENT_NODE
             children.push({
               tagName: '#comment',
               attributes: {},
-              textContent: child.textContent,
+              textContent: truncate(child.textContent),
               children: [],
-              depth: depth + 1
+              depth
             });
           }
         }
 
-        return {
+        return children;
+      }
+
+      function extractNode(element: any, depth: number): any {
+        if (depth > options.maxDepth) {
+          return null;
+        }
+
+        if (options.excludeTags.includes(element.tagName.toLowerCase())) {
+          return null;
+        }
+
+        if (!options.includeHidden && element instanceof HTMLElement) {
+          const style = window.getComputedStyle(element);
+          if (style.display === 'none' || style.visibility === 'hidden') {
+            return null;
+          }
+        }
+
+        const attributes: any = {};
+        for (let i = 0; i < element.attributes.length; i++) {
+          const attr = element.attributes[i];
+          if (keepAttribute(attr.name)) {
+            attributes[attr.name] = attr.value;
+          }
+        }
+
+        const node: any = {
           tagName: element.tagName.toLowerCase(),
           attributes,
-          textContent: options.includeTextNodes ? element.textContent?.trim() : undefined,
-          children,
+          textContent: options.includeTextNodes ? truncate(element.textContent?.trim()) : undefined,
+          children: extractChildren(element, depth + 1),
           depth
         };
+
+        // Open shadow roots become a '#shadow-root' child ahead of the light DOM
+        if (options.includeShadowDom && element.shadowRoot && depth + 1 <= options.maxDepth) {
+          node.shadowHost = true;
+          node.children.unshift({
+            tagName: '#shadow-root',
+            attributes: { mode: element.shadowRoot.mode },
+            children: extractChildren(element.shadowRoot, depth + 2),
+            depth: depth + 1
+          });
+        }
+
+        if (options.includeLayout) {
+          node.layout = layoutOf(element);
+        }
+        if (options.includeSelectors) {
+          node.selector = uniqueSelector(element);
+          const xpath = uniqueXPath(element);
+          if (xpath) {
+            node.xpath = xpath;
+          }
+        }
+
+        // Remember which frame this iframe hosts; its document is attached outside the page
+        const frameIndex = frameElements.indexOf(element);
+        if (frameIndex >= 0) {
+          node.frameIndex = frameIndex;
+        }
+
+        return node;
       }
 
-      return extractNode(document.documentElement);
-    }, extractionOptions);
+      return extractNode(root || document.documentElement, options.baseDepth);
+    }, { root: element, frameElements, options: extractionOptions });
 
+    await Promise.all(frameElements.map(handle => handle.dispose()));
+    if (domTree && frameElements.length > 0) {
+      await this.attachFrames(domTree, childFrames);
+    }
     return domTree;
   }
 
   /**
-   * Extract DOM tree from a specific CSS selector
-   * This method finds an element matching the selector and extracts its subtree
+   * Replace the frame markers left by extractFromFrame with '#document' nodes
+   * holding each child frame's tree and URL
    */
-  async extractFromSelector(page: Page, selector: string): Promise<DomNode | null> {
-    const element = await page.$(selector);
-    if (!element) {
-      return null;
+  private async attachFrames(node: DomNode, childFrames: Frame[]): Promise<void> {
+    const marked = node as DomNode & { frameIndex?: number };
+    if (marked.frameIndex !== undefined) {
+      const childFrame = childFrames[marked.frameIndex];
+      delete marked.frameIndex;
+
+      if (node.depth + 2 <= this.options.maxDepth) {
+        try {
+          const frameTree = await this.extractFromFrame(childFrame, null, node.depth + 2);
+          node.children.push({
+            tagName: '#document',
+            attributes: {},
+            children: frameTree ? [frameTree] : [],
+            depth: node.depth + 1,
+            frameUrl: childFrame.url()
+          });
+        } catch (error) {
+          // Frames can detach or navigate while being read
+          this.loggerFor(childFrame.page()).debug(`Skipped frame ${childFrame.url()}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
     }
 
-    // Create a simple plain object to avoid serialization issues
-    const extractionOptions = {
+    for (const child of node.children) {
+      await this.attachFrames(child, childFrames);
+    }
+  }
+
+  /**
+   * Extract a compact, indexed view of the page for agents and LLM prompts.
+   * Uses this extractor's includeHidden and excludeTags options.
+   */
+  async extractCompact(page: Page, selector?: string, maxTextLength?: number): Promise<CompactDom | null> {
+    const dom = await extractCompactDom(page, {
+      selector,
+      includeHidden: this.options.includeHidden,
+      excludeTags: [...this.options.excludeTags, 'noscript', 'svg', 'template'],
+      maxTextLength
+    });
+    if (!dom) {
+      this.loggerFor(page).warn(`No element matches "${selector}", nothing to extract`, { url: page.url() });
+    }
+    return dom;
+  }
+
+  /**
+   * Convert a compact DOM to indented text with [index] markers
+   */
+  compactToString(dom: CompactDom): string {
+    return compactDomToString(dom);
+  }
+
+  /**
+   * Extract the accessibility tree (roles, names, states) with this extractor's
+   * depth, hidden and excluded-tag options
+   */
+  async extractAccessibilityTree(page: Page, selector?: string): Promise<AccessibilityNode | null> {
+    const tree = await extractAccessibilityTree(page, {
+      selector,
       includeHidden: this.options.includeHidden,
       maxDepth: this.options.maxDepth,
+      excludeTags: this.options.excludeTags.slice()
+    });
+    if (!tree) {
+      this.loggerFor(page).warn(`No element matches "${selector}", nothing to extract`, { url: page.url() });
+    }
+    return tree;
+  }
+
+  /**
+   * Convert an accessibility tree to indented "- role "name" [states]" lines
+   */
+  accessibilityTreeToString(node: AccessibilityNode): string {
+    return accessibilityTreeToString(node);
+  }
+
+  /**
+   * Convert an accessibility tree to JSON string
+   */
+  accessibilityTreeToJson(node: AccessibilityNode, pretty: boolean = true): string {
+    return JSON.stringify(node, null, pretty ? 2 : 0);
+  }
+
+  /**
+   * Find the DomNode an accessibility node was built from. Both trees must be
+   * extracted from the same page state and root with this extractor.
+   */
+  findDomNode(tree: DomNode, node: AccessibilityNode): DomNode | null {
+    return nodeAtPath(tree, node.domPath);
+  }
+
+  /**
+   * Compare two trees from this extractor; see diffDomTrees
+   */
+  diff(before: DomNode, after: DomNode): DomChange[] {
+    return diffDomTrees(before, after);
+  }
+
+  /**
+   * Snapshot the page (or a subtree) around an operation and return what it changed,
+   * e.g. `await extractor.captureChanges(page, () => actions.click('#expand'))`
+   */
+  async captureChanges(page: Page, operation: () => Promise<unknown>, selector?: string): Promise<DomChange[]> {
+    const snapshot = () => (selector ? this.extractFromSelector(page, selector) : this.extractFromPage(page));
+    const before = await snapshot();
+    await operation();
+    const after = await snapshot();
+
+    if (!before || !after) {
+      return [];
+    }
+    return diffDomTrees(before, after);
+  }
+
+  /**
+   * Watch a page or a selector's subtree and report changes as they happen.
+   * Changes are batched per mutation callback and use the same paths as diff().
+   */
+  async watch(page: Page, onChange: (changes: DomChange[]) => void, options: DomWatchOptions = {}): Promise<DomSubscription> {
+    const id = `watch${++watcherCount}`;
+    const config: WatcherConfig = {
+      binding: `__automationDomChanges_${id}`,
+      id,
+      selector: options.selector || null,
+      attributes: options.attributes !== false,
+      text: options.text !== false,
+      maxDepth: this.options.maxDepth,
+      includeHidden: this.options.includeHidden,
       excludeTags: this.options.excludeTags.slice(),
       includeTextNodes: this.options.includeTextNodes,
       includeComments: this.options.includeComments
     };
 
-    const domTree = await element.evaluate((el, options) => {
-      function extractNode(element: any, depth: number = 0): any {
-        if (depth > options.maxDepth) {
-          return null;
-        }
+    // Bindings and init scripts cannot be removed, so both check this flag instead
+    let active = true;
+    await page.exposeBinding(config.binding, (_source, changes: DomChange[]) => {
+      if (active && changes.length > 0) {
+        onChange(changes);
+      }
+      return active;
+    });
+    await page.addInitScript(installMutationWatcher, config);
+    await page.evaluate(installMutationWatcher, config);
 
-        const attributes: any = {};
-        for (let i = 0; i < element.attributes.length; i++) {
-          const attr = element.attributes[i];
-          attributes[attr.name] = attr.value;
-        }
+    if (config.selector && !(await page.$(config.selector))) {
+      this.loggerFor(page).warn(`No element matches "${config.selector}", watching after the next navigation`, { url: page.url() });
+    }
 
-        const children: any[] = [];
-        for (let i = 0; i < element.childNodes.length; i++) {
-          const child = element.childNodes[i];
-          
-          if (child.nodeType === 1) { // ELEMENT_NODE
-            const childNode = extractNode(child, depth + 1);
-            if (childNode) {
-              children.push(childNode);
-            }
-          } else if (child.nodeType === 3 && options.includeTextNodes) { // TEXT_NODE
-            const textContent = child.textContent?.trim();
-            if (textContent) {
-              children.push({
-                tagName: '#text',
-                attributes: {},
-                textContent,
-                children: [],
-                depth: depth + 1
-              });
-            }
-          }
+    return {
+      stop: async () => {
+        active = false;
+        if (!page.isClosed()) {
+          await page.evaluate(watcherId => {
+            const watchers = (window as any).__automationDomWatchers || {};
+            watchers[watcherId]?.disconnect();
+          }, id);
         }
-
-        return {
-          tagName: element.tagName.toLowerCase(),
-          attributes,
-          textContent: options.includeTextNodes ? element.textContent?.trim() : undefined,
-          children,
-          depth
-        };
       }
+    };
+  }
 
-      return extractNode(el);
-    }, extractionOptions);
-
-    return domTree;
+  /**
+   * Pick the logger for a page: the injected one, the browser's, or the console
+   */
+  private loggerFor(page: Page): Logger {
+    return this.logger || observersFor(page).logger || consoleLogger;
   }
 
   /**
@@ -195,6 +850,9 @@ export class DomExtractor {
    */
   treeToString(node: DomNode, indent: string = ''): string {
     let result = `${indent}<${node.tagName}`;
+    if (node.frameUrl) {
+      result += ` url="${node.frameUrl}"`;
+    }
     
     // Add attributes
     for (const [key, value] of Object.entries(node.attributes)) {
@@ -216,6 +874,36 @@ export class DomExtractor {
     return result;
   }
 
+  /**
+   * Reduce a tree extracted with includeLayout to what a user can see, or with
+   * interactiveOnly to what they can see and click. Ancestors of kept nodes stay
+   * so the structure remains readable.
+   */
+  filterVisible(node: DomNode, interactiveOnly: boolean = false): DomNode | null {
+    if (node.tagName === '#text' || node.tagName === '#comment') {
+      return node;
+    }
+
+    const reason = node.layout?.visibilityReason;
+    // These hide the whole subtree; zero-size and covered boxes can still have visible children
+    if (reason && ['display-none', 'visibility-hidden', 'opacity-zero', 'clipped', 'off-screen'].includes(reason)) {
+      return null;
+    }
+
+    const children = node.children
+      .map(child => this.filterVisible(child, interactiveOnly))
+      .filter((child): child is DomNode => child !== null);
+    const hasElements = children.some(child => child.tagName !== '#text' && child.tagName !== '#comment');
+    const keepSelf = node.layout
+      ? node.layout.visible && (!interactiveOnly || node.layout.isInteractive)
+      : false;
+
+    if (!keepSelf && !hasElements) {
+      return null;
+    }
+    return { ...node, children };
+  }
+
   /**
    * Convert DOM tree to JSON string
    */
@@ -0,0 +1,79 @@
+import { DomNode } from './DomExtractor';
+
+/**
+ * Reshape a node after its children have been transformed. Return the node
+ * (changed or not), a replacement node, or null to remove it.
+ */
+export type DomTransform = (node: DomNode) => DomNode | null;
+
+const isElement = (node: DomNode) => !node.tagName.startsWith('#');
+
+/**
+ * Remove attributes by name from every element, e.g. dropAttributes('class', 'style').
+ * A trailing '*' matches a prefix, e.g. 'data-*'.
+ */
+export function dropAttributes(...names: string[]): DomTransform {
+  return node => {
+    if (!isElement(node)) {
+      return node;
+    }
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of Object.entries(node.attributes)) {
+      if (!matchesAttribute(name, names)) {
+        attributes[name] = value;
+      }
+    }
+    return { ...node, attributes };
+  };
+}
+
+/**
+ * Replace wrapper elements that have a single element child and no text of
+ * their own with that child, e.g. div > div > span becomes span. Wrappers
+ * with attributes other than `ignoreAttributes` (default: class, style) are kept.
+ */
+export function collapseWrappers(tags: string[] = ['div', 'span'], ignoreAttributes: string[] = ['class', 'style']): DomTransform {
+  return node => {
+    if (!tags.includes(node.tagName) || node.children.length !== 1 || !isElement(node.children[0])) {
+      return node;
+    }
+    const meaningful = Object.keys(node.attributes).filter(name => !ignoreAttributes.includes(name));
+    return meaningful.length === 0 ? node.children[0] : node;
+  };
+}
+
+/**
+ * Remove elements with no attributes, children or text, e.g. empty spacer divs
+ */
+export function dropEmptyElements(): DomTransform {
+  return node => {
+    const isEmpty = isElement(node) && node.children.length === 0 && !node.textContent && Object.keys(node.attributes).length === 0;
+    return isEmpty ? null : node;
+  };
+}
+
+/**
+ * True if `name` matches one of the patterns; a trailing '*' matches a prefix
+ */
+export function matchesAttribute(name: string, patterns: string[]): boolean {
+  return patterns.some(pattern => (pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern));
+}
+
+/**
+ * Apply transforms bottom-up: children are transformed before their parent
+ * sees them. Returns null if the root itself was removed.
+ */
+export function applyDomTransforms(node: DomNode, transforms: DomTransform[]): DomNode | null {
+  const children = node.children
+    .map(child => applyDomTransforms(child, transforms))
+    .filter((child): child is DomNode => child !== null);
+
+  let current: DomNode | null = { ...node, children };
+  for (const transform of transforms) {
+    if (!current) {
+      break;
+    }
+    current = transform(current);
+  }
+  return current;
+}
@@ -0,0 +1,240 @@
+import { ExtractedData, ExtractionRule } from './DataExtractor';
+import { TransformOutputs, TransformStep, ValueTransform, parseNumber } from './ValueTransforms';
+
+export type ValidationCheck = 'required' | 'pattern' | 'minCount' | 'maxCount' | 'custom' | 'error';
+
+export interface ValidationIssue {
+  path: string;                       // Field path, e.g. "price" or "stories[3].title"
+  check: ValidationCheck;
+  message: string;
+}
+
+export interface FieldValidation {
+  valid: boolean;
+  valueCount: number;                 // Non-empty values found (items for multiple rules)
+  issues: ValidationIssue[];          // Includes issues of nested fields
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  fields: Record<string, FieldValidation>;
+  issues: ValidationIssue[];
+}
+
+const isEmpty = (value: any) => value === null || value === undefined || value === '';
+
+/**
+ * True if any rule (or nested field) declares required, pattern, count or custom checks
+ */
+export function hasValidation(rules: ExtractionRule[]): boolean {
+  return rules.some(rule =>
+    rule.required || rule.pattern !== undefined || rule.minCount !== undefined || rule.maxCount !== undefined ||
+    rule.validate !== undefined || (rule.fields !== undefined && hasValidation(rule.fields))
+  );
+}
+
+function validateRule(rule: ExtractionRule, value: any, path: string, issues: ValidationIssue[]): number {
+  const present = (rule.multiple && Array.isArray(value) ? value : [value]).filter(item => !isEmpty(item));
+
+  if (rule.required && present.length === 0) {
+    issues.push({ path, check: 'required', message: rule.multiple ? 'No values found' : 'No value found' });
+  }
+  if (rule.multiple && rule.minCount !== undefined && present.length < rule.minCount) {
+    issues.push({ path, check: 'minCount', message: `Found ${present.length} values, expected at least ${rule.minCount}` });
+  }
+  if (rule.multiple && rule.maxCount !== undefined && present.length > rule.maxCount) {
+    issues.push({ path, check: 'maxCount', message: `Found ${present.length} values, expected at most ${rule.maxCount}` });
+  }
+
+  present.forEach((item, index) => {
+    const itemPath = rule.multiple ? `${path}[${index}]` : path;
+
+    if (rule.fields && typeof item === 'object') {
+      for (const field of rule.fields) {
+        validateRule(field, item[field.key], `${itemPath}.${field.key}`, issues);
+      }
+    } else if (rule.pattern !== undefined) {
+      const pattern = typeof rule.pattern === 'string' ? new RegExp(rule.pattern) : rule.pattern;
+      pattern.lastIndex = 0;
+      if (!pattern.test(String(item))) {
+        issues.push({ path: itemPath, check: 'pattern', message: `"${item}" does not match ${pattern}` });
+      }
+    }
+
+    if (rule.validate) {
+      const result = rule.validate(item);
+      if (result !== true) {
+        issues.push({ path: itemPath, check: 'custom', message: typeof result === 'string' ? result : 'Failed validation' });
+      }
+    }
+  });
+
+  return present.length;
+}
+
+/**
+ * Check extracted data against the rules' required, pattern, minCount/maxCount
+ * and validate settings. Pattern and custom checks run on each non-empty value
+ * after transforms. `errors` holds messages of rules that failed outright.
+ */
+export function validateExtraction(
+  rules: ExtractionRule[],
+  data: ExtractedData,
+  errors: Record<string, string> = {}
+): ValidationReport {
+  const fields: Record<string, FieldValidation> = {};
+  const issues: ValidationIssue[] = [];
+
+  for (const rule of rules) {
+    const fieldIssues: ValidationIssue[] = [];
+    let valueCount = 0;
+    if (errors[rule.key]) {
+      fieldIssues.push({ path: rule.key, check: 'error', message: errors[rule.key] });
+    } else {
+      valueCount = validateRule(rule, data[rule.key], rule.key, fieldIssues);
+    }
+    fields[rule.key] = { valid: fieldIssues.length === 0, valueCount, issues: fieldIssues };
+    issues.push(...fieldIssues);
+  }
+
+  return { valid: issues.length === 0, fields, issues };
+}
+
+// ============ SCHEMA BUILDER ============
+
+type FieldShape = 'single' | 'required' | 'list';
+
+/**
+ * One field of a schema. Each method returns a new field, so fields can be
+ * shared between schemas. V is the value type after transforms.
+ */
+export class SchemaField<V, S extends FieldShape = 'single'> {
+  constructor(readonly rule: Omit<ExtractionRule, 'key'>, readonly shape: S) {}
+
+  /**
+   * Extract every match as a list; elements without a value are left out
+   */
+  multiple(): SchemaField<V, 'list'> {
+    return new SchemaField({ ...this.rule, multiple: true, skipEmpty: true }, 'list');
+  }
+
+  /**
+   * Report the field when nothing is found. Single fields lose `null` from their type.
+   */
+  required(): SchemaField<V, S extends 'list' ? 'list' : 'required'> {
+    const shape = (this.shape === 'list' ? 'list' : 'required') as S extends 'list' ? 'list' : 'required';
+    return new SchemaField({ ...this.rule, required: true }, shape);
+  }
+
+  /**
+   * Transform the value (each item for lists), after any earlier transform
+   */
+  transform<U>(fn: (value: V) => U): SchemaField<U, S> {
+    return this.appendTransform(fn as ValueTransform);
+  }
+
+  /**
+   * Apply a built-in transform by name, e.g. field.text('.price').use('price', { locale: 'de-DE' })
+   */
+  use<N extends keyof TransformOutputs>(name: N, options: Record<string, any> = {}): SchemaField<TransformOutputs[N], S> {
+    return this.appendTransform({ ...options, name });
+  }
+
+  /**
+   * Parse the text as a number, ignoring currency signs and thousands separators.
+   * Text without a number is reported by validation.
+   */
+  number(this: SchemaField<string, S>, locale?: string): SchemaField<number, S> {
+    return this.transform(value => parseNumber(value, locale) ?? NaN)
+      .validate(value => !Number.isNaN(value) || 'Not a number');
+  }
+
+  /**
+   * Require each value to match a regular expression
+   */
+  match(pattern: RegExp | string): SchemaField<V, S> {
+    return new SchemaField({ ...this.rule, pattern }, this.shape);
+  }
+
+  /**
+   * Require a number of list items
+   */
+  count(this: SchemaField<V, 'list'>, range: { min?: number; max?: number }): SchemaField<V, 'list'> {
+    return new SchemaField({ ...this.rule, minCount: range.min, maxCount: range.max }, this.shape);
+  }
+
+  /**
+   * Add a custom check for each value. Return false (reported with `message`)
+   * or a message string to fail.
+   */
+  validate(check: (value: V) => boolean | string, message?: string): SchemaField<V, S> {
+    const previous = this.rule.validate;
+    const validate = (value: any): boolean | string => {
+      const earlier = previous ? previous(value) : true;
+      if (earlier !== true) {
+        return earlier;
+      }
+      const result = check(value);
+      return result === false && message ? message : result;
+    };
+    return new SchemaField({ ...this.rule, validate }, this.shape);
+  }
+
+  private appendTransform<U>(step: TransformStep): SchemaField<U, S> {
+    const previous = this.rule.transform;
+    const steps = previous === undefined ? [] : Array.isArray(previous) ? previous : [previous];
+    return new SchemaField({ ...this.rule, transform: [...steps, step] }, this.shape);
+  }
+}
+
+export type SchemaShape = Record<string, SchemaField<any, FieldShape>>;
+
+export type InferField<F> = F extends SchemaField<infer V, infer S>
+  ? S extends 'list' ? V[] : S extends 'required' ? V : V | null
+  : never;
+
+export type InferSchema<S extends SchemaShape> = { [K in keyof S]: InferField<S[K]> };
+
+function toRules(shape: SchemaShape): ExtractionRule[] {
+  return Object.entries(shape).map(([key, schemaField]) => ({ key, ...schemaField.rule }));
+}
+
+/**
+ * Starting points for schema fields
+ */
+export const field = {
+  text: (selector: string) => new SchemaField<string>({ selector }, 'single'),
+  attr: (selector: string, attribute: string) => new SchemaField<string>({ selector, attribute }, 'single'),
+  group: <S extends SchemaShape>(selector: string, shape: S) =>
+    new SchemaField<InferSchema<S>>({ selector, fields: toRules(shape) }, 'single')
+};
+
+/**
+ * Extraction rules whose result type is known. Build with defineSchema.
+ */
+export class ExtractionSchema<T> {
+  declare readonly type: T;  // Type-only: the data extractSchema resolves to
+
+  constructor(readonly rules: ExtractionRule[]) {}
+}
+
+/**
+ * Build typed extraction rules:
+ *
+ *   const schema = defineSchema({
+ *     title: field.text('h1').required(),
+ *     price: field.text('.price').number(),
+ *     tags: field.text('.tag').multiple().count({ min: 1 })
+ *   });
+ *   // { title: string; price: number | null; tags: string[] }
+ */
+export function defineSchema<S extends SchemaShape>(shape: S): ExtractionSchema<InferSchema<S>> {
+  return new ExtractionSchema(toRules(shape));
+}
+
+/**
+ * Result of DataExtractor.extractSchema. When validation fails any field may be null.
+ */
+export type SchemaResult<T> =
+  | { valid: true; data: T; validation: ValidationReport; metadata?: ExtractedData['_metadata'] }
+  | { valid: false; data: { [K in keyof T]: T[K] | null }; validation: ValidationReport; metadata?: ExtractedData['_metadata'] };
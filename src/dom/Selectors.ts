@@ -0,0 +1,147 @@
+import { DomNode } from './DomExtractor';
+
+// Attributes that usually survive redesigns, in order of preference after id
+export const STABLE_ATTRIBUTES = ['data-testid', 'data-test', 'data-qa', 'name', 'aria-label'];
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+const escapeId = (id: string) => id.replace(/([^\w-])/g, '\\$1').replace(/^(\d)/, '\\3$1 ');
+const isElement = (node: DomNode) => !node.tagName.startsWith('#');
+
+function collectElements(node: DomNode, into: DomNode[] = []): DomNode[] {
+  if (isElement(node)) {
+    into.push(node);
+  }
+  for (const child of node.children) {
+    collectElements(child, into);
+  }
+  return into;
+}
+
+// Ancestors of `target` from the root down, or null if it isn't in the tree
+function ancestry(root: DomNode, target: DomNode): DomNode[] | null {
+  if (root === target) {
+    return [root];
+  }
+  for (const child of root.children) {
+    const chain = ancestry(child, target);
+    if (chain) {
+      return [root, ...chain];
+    }
+  }
+  return null;
+}
+
+// Element children ignoring the '#shadow-root' and '#document' boundaries of the tree
+function elementChildren(node: DomNode): DomNode[] {
+  return node.children.filter(isElement);
+}
+
+/**
+ * Build a CSS selector for a DomNode. Returns the selector generated in the page
+ * when the tree was extracted with includeSelectors. Otherwise prefers id and
+ * stable attributes (data-testid, name, aria-label) that are unique in `root`,
+ * then an nth-of-type chain from the root. Without `root` the first stable
+ * attribute is used as-is, since uniqueness can't be checked.
+ *
+ * Trees built without includeHidden may skip siblings, so chains computed here
+ * are best-effort; prefer includeSelectors when exact selectors matter.
+ */
+export function selectorFor(node: DomNode, root?: DomNode): string {
+  if (node.selector) {
+    return node.selector;
+  }
+
+  const candidates: [string, (other: DomNode) => boolean][] = [];
+  if (node.attributes.id) {
+    candidates.push([`#${escapeId(node.attributes.id)}`, other => other.attributes.id === node.attributes.id]);
+  }
+  for (const attr of STABLE_ATTRIBUTES) {
+    const value = node.attributes[attr];
+    if (value) {
+      candidates.push([
+        `${node.tagName}[${attr}=${quote(value)}]`,
+        other => other.tagName === node.tagName && other.attributes[attr] === value
+      ]);
+    }
+  }
+
+  if (!root) {
+    return candidates.length > 0 ? candidates[0][0] : node.tagName;
+  }
+
+  const elements = collectElements(root);
+  for (const [selector, matches] of candidates) {
+    if (elements.filter(matches).length === 1) {
+      return selector;
+    }
+  }
+
+  const chain = ancestry(root, node);
+  if (!chain) {
+    return candidates.length > 0 ? candidates[0][0] : node.tagName;
+  }
+
+  const parts: string[] = [];
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const current = chain[i];
+    if (!isElement(current)) {
+      // A shadow root or frame document: selectors can't cross it, so stop here
+      break;
+    }
+    const id = current.attributes.id;
+    if (i < chain.length - 1 && id && elements.filter(other => other.attributes.id === id).length === 1) {
+      parts.unshift(`#${escapeId(id)}`);
+      break;
+    }
+    const parent = chain[i - 1];
+    const sameTag = parent ? elementChildren(parent).filter(child => child.tagName === current.tagName) : [];
+    parts.unshift(sameTag.length > 1 ? `${current.tagName}:nth-of-type(${sameTag.indexOf(current) + 1})` : current.tagName);
+  }
+  return parts.join(' > ');
+}
+
+/**
+ * Build an XPath for a DomNode, following the same preferences as selectorFor
+ */
+export function xpathFor(node: DomNode, root?: DomNode): string {
+  if (node.xpath) {
+    return node.xpath;
+  }
+
+  // XPath 1.0 strings have no escapes, so a value with both quote kinds is rebuilt with concat()
+  const literal = (value: string) => {
+    if (!value.includes('"')) {
+      return `"${value}"`;
+    }
+    if (!value.includes("'")) {
+      return `'${value}'`;
+    }
+    return `concat(${value.split("'").map(part => `'${part}'`).join(`, "'", `)})`;
+  };
+  const elements = root ? collectElements(root) : [];
+  const unique = (matches: (other: DomNode) => boolean) => !root || elements.filter(matches).length === 1;
+
+  if (node.attributes.id && unique(other => other.attributes.id === node.attributes.id)) {
+    return `//*[@id=${literal(node.attributes.id)}]`;
+  }
+  for (const attr of STABLE_ATTRIBUTES) {
+    const value = node.attributes[attr];
+    if (value && unique(other => other.tagName === node.tagName && other.attributes[attr] === value)) {
+      return `//${node.tagName}[@${attr}=${literal(value)}]`;
+    }
+  }
+
+  const chain = root ? ancestry(root, node) : null;
+  if (!chain) {
+    return `//${node.tagName}`;
+  }
+
+  const parts: string[] = [];
+  for (let i = chain.length - 1; i >= 0 && isElement(chain[i]); i--) {
+    const current = chain[i];
+    const parent = chain[i - 1];
+    const sameTag = parent ? elementChildren(parent).filter(child => child.tagName === current.tagName) : [current];
+    parts.unshift(`${current.tagName}[${sameTag.indexOf(current) + 1}]`);
+  }
+  return chain.every(isElement) && chain[0].tagName === 'html' ? `/${parts.join('/')}` : `//${parts.join('/')}`;
+}
@@ -0,0 +1,287 @@
+import { Page } from 'playwright';
+
+export type StructuredDataSource = 'json-ld' | 'microdata' | 'rdfa';
+
+/**
+ * One item in JSON-LD shape whatever its source: '@type' and property names
+ * without the schema.org prefix, nested items as objects.
+ */
+export interface StructuredItem {
+  '@type': string | string[];
+  '@id'?: string;
+  '@source'?: StructuredDataSource;   // Set on top-level items
+  [property: string]: any;
+}
+
+export interface StructuredData {
+  types: Record<string, StructuredItem[]>;  // Top-level items by type, e.g. types.Product
+  items: StructuredItem[];                  // Top-level items in page order, JSON-LD first
+  errors: string[];                         // JSON-LD blocks that could not be parsed
+}
+
+export interface StructuredDataOptions {
+  sources?: StructuredDataSource[];         // Formats to read (default: all three)
+}
+
+type RawValue = string | RawItem;
+
+interface RawItem {
+  source: 'microdata' | 'rdfa';
+  types: string[];
+  id: string | null;
+  properties: [string, RawValue][];
+}
+
+interface RawStructuredData {
+  jsonLd: string[];
+  items: RawItem[];
+}
+
+/**
+ * Runs inside the page: returns JSON-LD script contents and the microdata and
+ * RDFa item trees, with URL-valued properties resolved
+ */
+function collectStructuredData(sources: StructuredDataSource[]): RawStructuredData {
+  const jsonLd = sources.includes('json-ld')
+    ? Array.from(document.querySelectorAll('script[type="application/ld+json"]')).map(script => script.textContent || '')
+    : [];
+
+  const text = (element: Element) => (element.textContent || '').replace(/\s+/g, ' ').trim();
+  const urlValue = (element: Element) => {
+    for (const attribute of ['href', 'src', 'data']) {
+      const value = element.getAttribute(attribute);
+      if (value !== null) {
+        try {
+          return new URL(value, document.baseURI).href;
+        } catch (error) {
+          return value;
+        }
+      }
+    }
+    return null;
+  };
+
+  const microdataValue = (element: Element): string => {
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'meta') {
+      return element.getAttribute('content') || '';
+    }
+    if (['a', 'area', 'link', 'img', 'audio', 'video', 'source', 'track', 'iframe', 'embed', 'object'].includes(tag)) {
+      return urlValue(element) || '';
+    }
+    if (tag === 'data' || tag === 'meter') {
+      return element.getAttribute('value') || '';
+    }
+    if (tag === 'time') {
+      return element.getAttribute('datetime') || text(element);
+    }
+    return element.getAttribute('content') || text(element);
+  };
+
+  const microdataItem = (scope: Element, ancestors: Element[]): RawItem => {
+    const properties: [string, RawValue][] = [];
+    const addProperty = (element: Element) => {
+      const value: RawValue | null = element.hasAttribute('itemscope')
+        ? ([...ancestors, scope].includes(element) ? null : microdataItem(element, [...ancestors, scope]))
+        : microdataValue(element);
+      if (value !== null) {
+        for (const name of (element.getAttribute('itemprop') || '').split(/\s+/).filter(Boolean)) {
+          properties.push([name, value]);
+        }
+      }
+    };
+    const visit = (element: Element) => {
+      for (const child of Array.from(element.children)) {
+        if (child.hasAttribute('itemprop')) {
+          addProperty(child);
+        }
+        if (!child.hasAttribute('itemscope')) {
+          visit(child);
+        }
+      }
+    };
+
+    visit(scope);
+    for (const id of (scope.getAttribute('itemref') || '').split(/\s+/).filter(Boolean)) {
+      const referenced = document.getElementById(id);
+      if (referenced) {
+        if (referenced.hasAttribute('itemprop')) {
+          addProperty(referenced);
+        }
+        if (!referenced.hasAttribute('itemscope')) {
+          visit(referenced);
+        }
+      }
+    }
+
+    return {
+      source: 'microdata',
+      types: (scope.getAttribute('itemtype') || '').split(/\s+/).filter(Boolean),
+      id: scope.getAttribute('itemid'),
+      properties
+    };
+  };
+
+  // RDFa terms are relative to the nearest vocab unless they are prefixed or absolute
+  const expand = (element: Element, terms: string) => {
+    const vocab = element.closest('[vocab]')?.getAttribute('vocab') || '';
+    return terms.split(/\s+/).filter(Boolean).map(term => (term.includes(':') ? term : vocab + term));
+  };
+
+  const rdfaValue = (element: Element): string => {
+    const content = element.getAttribute('content');
+    if (content !== null) {
+      return content;
+    }
+    const resource = element.getAttribute('resource');
+    if (resource !== null) {
+      return resource;
+    }
+    if (element.tagName.toLowerCase() === 'time' && element.hasAttribute('datetime')) {
+      return element.getAttribute('datetime')!;
+    }
+    return urlValue(element) || text(element);
+  };
+
+  const rdfaItem = (scope: Element): RawItem => {
+    const properties: [string, RawValue][] = [];
+    const visit = (element: Element) => {
+      for (const child of Array.from(element.children)) {
+        if (child.hasAttribute('property')) {
+          const value = child.hasAttribute('typeof') ? rdfaItem(child) : rdfaValue(child);
+          for (const name of expand(child, child.getAttribute('property')!)) {
+            properties.push([name, value]);
+          }
+        }
+        if (!child.hasAttribute('typeof')) {
+          visit(child);
+        }
+      }
+    };
+
+    visit(scope);
+    return {
+      source: 'rdfa',
+      types: expand(scope, scope.getAttribute('typeof') || ''),
+      id: scope.getAttribute('resource') || scope.getAttribute('about'),
+      properties
+    };
+  };
+
+  const microdata = sources.includes('microdata')
+    ? Array.from(document.querySelectorAll('[itemscope]:not([itemprop])')).map(scope => microdataItem(scope, []))
+    : [];
+  const rdfa = sources.includes('rdfa')
+    ? Array.from(document.querySelectorAll('[typeof]'))
+      .filter(scope => !scope.hasAttribute('property') || !scope.parentElement?.closest('[typeof]'))
+      .map(rdfaItem)
+    : [];
+
+  return { jsonLd, items: [...microdata, ...rdfa] };
+}
+
+/**
+ * Drop the schema.org prefix from a type or property name; other vocabularies keep theirs
+ */
+function shortName(name: string): string {
+  return name.replace(/^(https?:\/\/schema\.org\/|schema:)/, '');
+}
+
+function normalizeJsonLd(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(normalizeJsonLd);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const item: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === '@context') {
+      continue;
+    }
+    if (key === '@type') {
+      item[key] = Array.isArray(child) ? child.map(type => shortName(String(type))) : shortName(String(child));
+    } else {
+      item[key.startsWith('@') ? key : shortName(key)] = normalizeJsonLd(child);
+    }
+  }
+  return item;
+}
+
+function normalizeRaw(raw: RawItem): StructuredItem {
+  const types = raw.types.map(shortName);
+  const item: StructuredItem = { '@type': types.length === 1 ? types[0] : types };
+  if (raw.id) {
+    item['@id'] = raw.id;
+  }
+
+  for (const [name, value] of raw.properties) {
+    const key = shortName(name);
+    const normalized = typeof value === 'string' ? value : normalizeRaw(value);
+    if (!Object.prototype.hasOwnProperty.call(item, key)) {
+      item[key] = normalized;
+    } else {
+      item[key] = Array.isArray(item[key]) ? [...item[key], normalized] : [item[key], normalized];
+    }
+  }
+  return item;
+}
+
+/**
+ * Parse JSON-LD blocks, unwrapping arrays and @graph lists into separate items
+ */
+function parseJsonLd(blocks: string[], errors: string[]): StructuredItem[] {
+  const items: StructuredItem[] = [];
+  blocks.forEach((block, index) => {
+    // Some sites still wrap the JSON in HTML comments or CDATA markers
+    const source = block.trim()
+      .replace(/^(\/\/\s*)?(<!--|<!\[CDATA\[)/, '')
+      .replace(/(\/\/\s*)?(-->|\]\]>)$/, '')
+      .trim();
+    let parsed: any;
+    try {
+      parsed = JSON.parse(source);
+    } catch (error) {
+      errors.push(`JSON-LD block ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    const roots = Array.isArray(parsed) ? parsed : [parsed];
+    for (const root of roots) {
+      const entries = root && Array.isArray(root['@graph']) ? root['@graph'] : [root];
+      for (const entry of entries) {
+        if (entry && typeof entry === 'object') {
+          items.push({ ...normalizeJsonLd(entry), '@source': 'json-ld' });
+        }
+      }
+    }
+  });
+  return items;
+}
+
+/**
+ * Read JSON-LD, microdata and RDFa from the page into items of one shape,
+ * grouped by schema.org type. Only top-level items are grouped; nested items
+ * (a Product's offers, an Article's author) stay inside their parent.
+ */
+export async function extractStructuredData(page: Page, options: StructuredDataOptions = {}): Promise<StructuredData> {
+  const sources = options.sources || ['json-ld', 'microdata', 'rdfa'];
+  const raw = await page.evaluate(collectStructuredData, sources);
+
+  const errors: string[] = [];
+  const items = [
+    ...parseJsonLd(raw.jsonLd, errors),
+    ...raw.items.map(item => ({ ...normalizeRaw(item), '@source': item.source }))
+  ];
+
+  const types: Record<string, StructuredItem[]> = {};
+  for (const item of items) {
+    const itemTypes = item['@type'] === undefined ? [] : Array.isArray(item['@type']) ? item['@type'] : [item['@type']];
+    for (const type of itemTypes.length > 0 ? itemTypes : ['Thing']) {
+      (types[type] = types[type] || []).push(item);
+    }
+  }
+
+  return { types, items, errors };
+}
@@ -0,0 +1,284 @@
+import { Page } from 'playwright';
+import { parseDate, parseNumber } from './ValueTransforms';
+
+export type TableSection = 'thead' | 'tbody' | 'tfoot';
+export type TableValue = string | number | boolean | null;
+export type ColumnType = 'string' | 'number' | 'boolean' | 'date';
+
+export interface RawTableCell {
+  text: string;                       // Text without nested tables, whitespace collapsed
+  header: boolean;                    // <th> or scope="row"/"col"
+  colspan: number;
+  rowspan: number;                    // 0 spans to the end of the row group
+}
+
+export interface RawTableRow {
+  section: TableSection;
+  group: number;                      // Row group (thead/tbody/tfoot element); spans stop at its end
+  cells: RawTableCell[];
+}
+
+/**
+ * A table as read from the page, before spans are expanded
+ */
+export interface RawTable {
+  index: number;
+  caption: string | null;
+  parent: { table: number; row: number; cell: number } | null;  // Enclosing table's index and the cell's DOM row/cell index
+  rows: RawTableRow[];
+}
+
+export interface TableOptions {
+  includeNested?: boolean;            // Also return tables inside table cells (default: true)
+  headerRows?: number;                // Number of header rows (default: <thead> rows, else leading rows of only <th>)
+  headerSeparator?: string;           // Joins stacked header cells, e.g. "Q1 / Revenue" (default: ' / ')
+  types?: boolean;                    // Convert columns to numbers, booleans and ISO dates when every value fits (default: true)
+}
+
+export interface ParsedTable {
+  index: number;                      // Position among the extracted tables, in document order
+  caption: string | null;
+  parent: RawTable['parent'];
+  columns: string[];                  // One name per column after colspan expansion
+  columnTypes: Record<string, ColumnType>;
+  rowHeaders: string[] | null;        // First-column header cells of body rows, when every body row has one
+  records: Record<string, TableValue>[];  // Body rows keyed by column
+  footer: Record<string, TableValue>[];   // <tfoot> rows keyed by column
+  headerGrid: string[][];             // Header rows with spans expanded
+  bodyGrid: string[][];               // Body rows with spans expanded
+}
+
+/**
+ * Runs inside the page: reads every table matching (or inside elements
+ * matching) the selector, in document order
+ */
+function collectTables(config: { selector: string; includeNested: boolean }): RawTable[] {
+  const found: HTMLTableElement[] = [];
+  for (const root of Array.from(document.querySelectorAll(config.selector))) {
+    const candidates = Array.from(root.querySelectorAll('table'));
+    if (root instanceof HTMLTableElement) {
+      candidates.unshift(root);
+    }
+    for (const table of candidates) {
+      if (!found.includes(table)) {
+        found.push(table);
+      }
+    }
+  }
+  found.sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+  const tables = config.includeNested ? found : found.filter(table => !table.parentElement?.closest('table'));
+
+  const textOf = (element: Element) => {
+    const clone = element.cloneNode(true) as Element;
+    clone.querySelectorAll('table').forEach(nested => nested.remove());
+    return (clone.textContent || '').replace(/\s+/g, ' ').trim();
+  };
+
+  return tables.map((table, index) => {
+    const outerCell = table.parentElement?.closest('td, th') as HTMLTableCellElement | null;
+    const outerIndex = outerCell ? tables.indexOf(outerCell.closest('table') as HTMLTableElement) : -1;
+    const groups: Element[] = [];
+
+    return {
+      index,
+      caption: table.caption ? textOf(table.caption) : null,
+      parent: outerCell && outerIndex >= 0
+        ? { table: outerIndex, row: (outerCell.parentElement as HTMLTableRowElement).rowIndex, cell: outerCell.cellIndex }
+        : null,
+      rows: Array.from(table.rows).map((row): RawTableRow => {
+        const container = row.parentElement as Element;
+        const tag = container.tagName.toLowerCase();
+        if (!groups.includes(container)) {
+          groups.push(container);
+        }
+        return {
+          section: tag === 'thead' || tag === 'tfoot' ? tag : 'tbody',
+          group: groups.indexOf(container),
+          cells: Array.from(row.cells).map(cell => ({
+            text: textOf(cell),
+            header: cell.tagName === 'TH' || ['row', 'col', 'rowgroup', 'colgroup'].includes(cell.getAttribute('scope') || ''),
+            colspan: Math.max(1, cell.colSpan),
+            rowspan: cell.rowSpan
+          }))
+        };
+      })
+    };
+  });
+}
+
+/**
+ * Expand colspan/rowspan within one row group so every row has one cell per column
+ */
+function expandGroup(rows: RawTableRow[]): RawTableCell[][] {
+  const grid: RawTableCell[][] = rows.map(() => []);
+
+  rows.forEach((row, r) => {
+    let column = 0;
+    for (const cell of row.cells) {
+      while (grid[r][column]) {
+        column++;
+      }
+      const rowspan = cell.rowspan === 0 ? rows.length - r : Math.max(1, cell.rowspan);
+      for (let dr = 0; dr < rowspan && r + dr < rows.length; dr++) {
+        for (let dc = 0; dc < cell.colspan; dc++) {
+          grid[r + dr][column + dc] = cell;
+        }
+      }
+      column += cell.colspan;
+    }
+  });
+  return grid;
+}
+
+function expandRows(rows: RawTableRow[]): RawTableCell[][] {
+  const grid: RawTableCell[][] = [];
+  let start = 0;
+  for (let i = 1; i <= rows.length; i++) {
+    if (i === rows.length || rows[i].group !== rows[start].group) {
+      grid.push(...expandGroup(rows.slice(start, i)));
+      start = i;
+    }
+  }
+
+  const empty: RawTableCell = { text: '', header: false, colspan: 1, rowspan: 1 };
+  const width = Math.max(0, ...grid.map(row => row.length));
+  return grid.map(row => Array.from({ length: width }, (_, column) => row[column] || empty));
+}
+
+const BOOLEAN_WORDS = new Map<string, boolean>([
+  ['yes', true], ['no', false], ['true', true], ['false', false], ['✓', true], ['✔', true], ['✗', false], ['✘', false]
+]);
+
+const isNumeric = (text: string) => {
+  const number = text.replace(/^[$€£¥₹]\s*|\s*(%|[$€£¥₹]|[A-Z]{3})$/g, '');
+  if (!/^[-+\u2212]?\d[\d.,'\s\u00a0\u202f]*$/.test(number)) {
+    return false;
+  }
+  const digits = number.replace(/^[-+\u2212]/, '');
+  // Codes such as ZIP codes and "007" keep their leading zeros as text
+  if (/^0\d/.test(digits)) {
+    return false;
+  }
+  // A repeated separator only groups thousands: "1.234.567" is a number, "1.2.3" and "05.03.2024" are not
+  const repeated = (separator: string, grouped: RegExp) => digits.split(separator).length > 2 && !grouped.test(digits);
+  return !repeated('.', /^\d{1,3}(\.\d{3})+(,\d+)?$/) && !repeated(',', /^\d{1,3}(,\d{3})+(\.\d+)?$/);
+};
+const isDate = (text: string) =>
+  /^(\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|[A-Z][a-z]{2,8}\.? \d{1,2}(st|nd|rd|th)?,? \d{4})$/.test(text) &&
+  parseDate(text) !== null;
+
+function inferType(values: string[]): ColumnType {
+  const present = values.filter(value => value !== '');
+  if (present.length === 0) {
+    return 'string';
+  }
+  // Dates first: numeric dates are made of digits and separators too
+  if (present.every(isDate)) {
+    return 'date';
+  }
+  if (present.every(isNumeric)) {
+    return 'number';
+  }
+  return present.every(value => BOOLEAN_WORDS.has(value.toLowerCase())) ? 'boolean' : 'string';
+}
+
+function convert(text: string, type: ColumnType): TableValue {
+  if (text === '') {
+    return null;
+  }
+  switch (type) {
+    case 'number':
+      return parseNumber(text);
+    case 'boolean':
+      return BOOLEAN_WORDS.get(text.toLowerCase()) ?? null;
+    case 'date':
+      return parseDate(text);
+    default:
+      return text;
+  }
+}
+
+/**
+ * Name each column from the header rows above it; stacked header cells are
+ * joined, and blank or repeated names are made unique
+ */
+function columnNames(headerGrid: string[][], width: number, separator: string): string[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    for (const row of headerGrid) {
+      const text = row[column];
+      if (text && text !== parts[parts.length - 1]) {
+        parts.push(text);
+      }
+    }
+    const base = parts.join(separator) || `Column ${column + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+}
+
+/**
+ * Expand spans, find header rows and row headers, and build typed records
+ */
+export function parseTable(raw: RawTable, options: TableOptions = {}): ParsedTable {
+  const grid = expandRows(raw.rows);
+  const width = grid.length > 0 ? grid[0].length : 0;
+
+  let headerCount = options.headerRows;
+  if (headerCount === undefined) {
+    headerCount = raw.rows.filter(row => row.section === 'thead').length;
+  }
+  if (headerCount === 0 && options.headerRows === undefined) {
+    // Leading rows made only of <th> cells, as long as some rows remain for the body
+    while (headerCount < raw.rows.length - 1 && raw.rows[headerCount].section === 'tbody' &&
+      raw.rows[headerCount].cells.length > 0 && raw.rows[headerCount].cells.every(cell => cell.header)) {
+      headerCount++;
+    }
+  }
+
+  const texts = (rows: RawTableCell[][]) => rows.map(row => row.map(cell => cell.text));
+  const isHeaderRow = (index: number) => index < headerCount! || raw.rows[index].section === 'thead';
+  const headerGrid = texts(grid.filter((_, index) => isHeaderRow(index)));
+  const bodyRows = grid.filter((row, index) => !isHeaderRow(index) && raw.rows[index].section !== 'tfoot' && row.some(cell => cell.text));
+  const footerRows = grid.filter((row, index) => !isHeaderRow(index) && raw.rows[index].section === 'tfoot');
+  const bodyGrid = texts(bodyRows);
+
+  const columns = columnNames(headerGrid, width, options.headerSeparator ?? ' / ');
+  const types = options.types !== false;
+  const columnTypes: Record<string, ColumnType> = {};
+  columns.forEach((column, index) => {
+    columnTypes[column] = types ? inferType(bodyGrid.map(row => row[index])) : 'string';
+  });
+
+  // Footer cells (totals, notes) may not fit the body's column types; those keep their text
+  const toRecord = (row: string[]) => {
+    const record: Record<string, TableValue> = {};
+    columns.forEach((column, index) => {
+      record[column] = convert(row[index], columnTypes[column]) ?? (row[index] || null);
+    });
+    return record;
+  };
+
+  return {
+    index: raw.index,
+    caption: raw.caption,
+    parent: raw.parent,
+    columns,
+    columnTypes,
+    rowHeaders: bodyRows.length > 0 && bodyRows.every(row => row[0].header) ? bodyGrid.map(row => row[0]) : null,
+    records: bodyGrid.map(toRecord),
+    footer: texts(footerRows).map(toRecord),
+    headerGrid,
+    bodyGrid
+  };
+}
+
+/**
+ * Read and parse every table matching the selector (or inside elements matching it)
+ */
+export async function extractTables(page: Page, selector: string = 'table', options: TableOptions = {}): Promise<ParsedTable[]> {
+  const rawTables = await page.evaluate(collectTables, { selector, includeNested: options.includeNested !== false });
+  return rawTables.map(raw => parseTable(raw, options));
+}
@@ -0,0 +1,292 @@
+export interface TransformContext {
+  url: string;                        // URL of the page the value was extracted from
+}
+
+export type ValueTransform = (value: any, context: TransformContext) => any;
+
+/**
+ * A registered transform by name, either bare ('trim') or with options
+ * ({ name: 'price', locale: 'de-DE' }). Named transforms survive JSON rule files.
+ */
+export type NamedTransform = string | { name: string; [option: string]: any };
+
+export type TransformStep = NamedTransform | ValueTransform;
+
+export interface Price {
+  amount: number;
+  currency: string | null;            // ISO 4217 code, e.g. "EUR"
+}
+
+/**
+ * Output type of each built-in transform, used by SchemaField.use
+ */
+export interface TransformOutputs {
+  trim: string;
+  normalizeWhitespace: string;
+  lowercase: string;
+  uppercase: string;
+  number: number | null;
+  price: Price | null;
+  date: string | null;
+  url: string;
+  regex: string | null;
+  replace: string;
+  boolean: boolean | null;
+  split: string[];
+}
+
+type TransformFactory = (options: Record<string, any>) => ValueTransform;
+
+const registry = new Map<string, TransformFactory>();
+
+/**
+ * Register a transform that rules can reference by name. The factory receives
+ * the options of { name, ...options } specs (an empty object for bare names).
+ */
+export function registerTransform(name: string, factory: TransformFactory): void {
+  registry.set(name, factory);
+}
+
+/**
+ * Turn a rule's transform (a function, a name, or a list of either applied in
+ * order) into a single function
+ */
+export function resolveTransform(steps: TransformStep | TransformStep[]): ValueTransform {
+  const resolved = (Array.isArray(steps) ? steps : [steps]).map(step => {
+    if (typeof step === 'function') {
+      return step;
+    }
+    const { name, ...options } = typeof step === 'string' ? { name: step } : step;
+    const factory = registry.get(name);
+    if (!factory) {
+      throw new Error(`Unknown transform "${name}"`);
+    }
+    return factory(options);
+  });
+
+  return (value, context) => resolved.reduce((current, transform) => (current === null ? null : transform(current, context)), value);
+}
+
+// ============ PARSERS ============
+
+function decimalSeparator(locale: string): string {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return parts.find(part => part.type === 'decimal')?.value || '.';
+}
+
+// One grouping separator every three digits, then an optional decimal part with the other separator
+const GROUPED_NUMBER = /^-?\d{1,3}([.,'\s\u00a0\u202f])\d{3}(?:\1\d{3})*(?:(?!\1)[.,]\d+)?$/;
+
+/**
+ * Parse the first number in a text, e.g. "1,299.50 items" or "1.299,50 €".
+ * With a locale its decimal separator is used; otherwise the separator is
+ * guessed: the last of '.' and ',' when both appear, and a lone ',' followed
+ * by three digits is a thousands separator. Several separators must group
+ * thousands ("1.234.567"); anything else ("2.0.1") gives null.
+ */
+export function parseNumber(text: string, locale?: string): number | null {
+  const match = text.replace(/\u2212/g, '-').match(/-?\d[\d.,'\s\u00a0\u202f]*/);
+  if (!match) {
+    return null;
+  }
+  const run = match[0].replace(/[.,'\s\u00a0\u202f]+$/, '');
+  // Several separators only make sense as thousands grouping; "2.0.1" and "1 2 3" are not numbers
+  if ((run.match(/[.,'\s\u00a0\u202f]/g) || []).length > 1 && !GROUPED_NUMBER.test(run)) {
+    return null;
+  }
+
+  let decimal: string;
+  if (locale) {
+    decimal = decimalSeparator(locale);
+  } else if (run.includes('.') && run.includes(',')) {
+    decimal = run.lastIndexOf('.') > run.lastIndexOf(',') ? '.' : ',';
+  } else if (run.includes(',')) {
+    decimal = /^-?\d{1,3}(,\d{3})+$/.test(run) ? '.' : ',';
+  } else {
+    decimal = /^-?\d{1,3}(\.\d{3}){2,}$/.test(run) ? ',' : '.';
+  }
+
+  const [whole, ...fraction] = run.split(decimal);
+  const digits = whole.replace(/[^\d-]/g, '') + (fraction.length > 0 ? `.${fraction.join('').replace(/\D/g, '')}` : '');
+  const value = Number(digits);
+  return Number.isNaN(value) ? null : value;
+}
+
+// Longer symbols first so "US$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'], ['CA$', 'CAD'], ['C$', 'CAD'], ['A$', 'AUD'], ['NZ$', 'NZD'], ['R$', 'BRL'], ['HK$', 'HKD'],
+  ['$', 'USD'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₹', 'INR'], ['₩', 'KRW'], ['₽', 'RUB'], ['₺', 'TRY'],
+  ['zł', 'PLN']
+];
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'BRL', 'MXN', 'KRW', 'RUB', 'TRY', 'ZAR', 'HKD', 'SGD'];
+
+/**
+ * Parse a price into an amount and ISO currency code. The currency comes from
+ * a code ("EUR") or symbol ("€") in the text, otherwise `options.currency`.
+ */
+export function parsePrice(text: string, options: { locale?: string; currency?: string } = {}): Price | null {
+  const amount = parseNumber(text, options.locale);
+  if (amount === null) {
+    return null;
+  }
+  const code = CURRENCY_CODES.find(candidate => new RegExp(`\\b${candidate}\\b`).test(text));
+  const symbol = CURRENCY_SYMBOLS.find(([candidate]) => text.includes(candidate));
+  return { amount, currency: code || symbol?.[1] || options.currency || null };
+}
+
+const RELATIVE_UNITS: Record<string, number> = {
+  second: 1000, minute: 60000, hour: 3600000, day: 86400000, week: 604800000, month: 2592000000, year: 31536000000
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const localDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+function dayBeforeMonth(locale: string): boolean {
+  const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(2000, 10, 22));
+  return parts.findIndex(part => part.type === 'day') < parts.findIndex(part => part.type === 'month');
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const TIME = /^,?\s*(?:at\s+)?(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?$/i;
+
+/**
+ * Build a local date from its parts and an optional trailing time ("14:30",
+ * "at 2:30 pm"). Returns null for out-of-range parts, impossible days such as
+ * February 31st (which Date would roll over), or unrecognised trailing text.
+ */
+function localDateTime(year: number, month: number, day: number, rest: string): Date | null {
+  const time = rest.trim() ? rest.match(TIME) : null;
+  if (rest.trim() && !time) {
+    return null;
+  }
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+  const meridiem = time?.[4]?.toLowerCase();
+  let hours = time ? Number(time[1]) : 0;
+  if (meridiem === 'pm' && hours < 12) {
+    hours += 12;
+  } else if (meridiem === 'am' && hours === 12) {
+    hours = 0;
+  }
+  const date = new Date(year, month - 1, day, hours, time ? Number(time[2]) : 0, time?.[3] ? Number(time[3]) : 0);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse a date into ISO format: "2024-03-05" for dates, a full UTC timestamp
+ * when the text has a time. Understands ISO dates, English dates ("March 5th, 2024",
+ * "Mar 5, 2024 3:45 PM"), numeric dates (day-first for '.'-separated or day-first
+ * locales, unless `dayFirst` says otherwise) and relative times ("3 hours ago",
+ * "yesterday"). Any other text gives null.
+ */
+export function parseDate(text: string, options: { locale?: string; dayFirst?: boolean; now?: Date } = {}): string | null {
+  const input = text.trim();
+  const now = options.now || new Date();
+
+  const relative = input.match(/^(\d+|an?|one)\s+(second|minute|hour|day|week|month|year)s?\s+ago$/i);
+  if (relative) {
+    const count = /^\d+$/.test(relative[1]) ? Number(relative[1]) : 1;
+    return new Date(now.getTime() - count * RELATIVE_UNITS[relative[2].toLowerCase()]).toISOString();
+  }
+  if (/^(today|yesterday)$/i.test(input)) {
+    const day = new Date(now);
+    day.setDate(day.getDate() - (input.toLowerCase() === 'yesterday' ? 1 : 0));
+    return localDate(day);
+  }
+
+  const hasTime = /\d:\d\d/.test(input);
+  let date: Date | null;
+  const numeric = input.match(/^(\d{1,4})([/.-])(\d{1,2})\2(\d{1,4})(.*)$/);
+  const english = input.match(/^([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})(.*)$/i);
+  if (ISO_DATE.test(input)) {
+    const [year, month, day] = input.slice(0, 10).split('-').map(Number);
+    date = localDateTime(year, month, day, '') ? new Date(input.replace(' ', 'T')) : null;
+  } else if (numeric && numeric[1].length === 4) {
+    date = localDateTime(Number(numeric[1]), Number(numeric[3]), Number(numeric[4]), numeric[5]);
+  } else if (numeric && (numeric[4].length === 2 || numeric[4].length === 4)) {
+    const dayFirst = options.dayFirst ?? (options.locale ? dayBeforeMonth(options.locale) : numeric[2] === '.');
+    const [day, month] = dayFirst ? [numeric[1], numeric[3]] : [numeric[3], numeric[1]];
+    const year = numeric[4].length === 2 ? 2000 + Number(numeric[4]) : Number(numeric[4]);
+    date = localDateTime(year, Number(month), Number(day), numeric[5]);
+  } else if (english) {
+    const name = english[1].toLowerCase();
+    const month = MONTHS.findIndex(candidate => candidate.startsWith(name)) + 1;
+    date = month > 0 ? localDateTime(Number(english[3]), month, Number(english[2]), english[4]) : null;
+  } else {
+    // Anything else ("Item 5", "Page 3") is not a date, however lenient Date() would be
+    date = null;
+  }
+
+  if (!date || Number.isNaN(date.getTime())) {
+    return null;
+  }
+  if (hasTime) {
+    return date.toISOString();
+  }
+  // Date-only ISO strings parse as UTC, everything else as local time
+  return /^\d{4}-\d{2}-\d{2}$/.test(input) ? input : localDate(date);
+}
+
+// ============ BUILT-IN TRANSFORMS ============
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'on', 'checked', 'enabled'];
+const FALSE_WORDS = ['false', 'no', 'n', '0', 'off', 'unchecked', 'disabled'];
+
+const toRegExp = (pattern: RegExp | string, flags?: string) => (typeof pattern === 'string' ? new RegExp(pattern, flags) : pattern);
+
+registerTransform('trim', () => value => String(value).trim());
+registerTransform('normalizeWhitespace', () => value => String(value).replace(/[\s\u00a0\u202f]+/g, ' ').trim());
+registerTransform('lowercase', () => value => String(value).toLowerCase());
+registerTransform('uppercase', () => value => String(value).toUpperCase());
+registerTransform('number', ({ locale }) => value => parseNumber(String(value), locale));
+registerTransform('price', ({ locale, currency }) => value => parsePrice(String(value), { locale, currency }));
+registerTransform('date', ({ locale, dayFirst }) => value => parseDate(String(value), { locale, dayFirst }));
+
+// Resolve relative href/src values against the page URL
+registerTransform('url', () => (value, context) => {
+  try {
+    return new URL(String(value).trim(), context.url).href;
+  } catch (error) {
+    return value;
+  }
+});
+
+// Capture group `group` (default: 1, or the whole match without groups) of the first match
+registerTransform('regex', ({ pattern, flags, group }) => {
+  const source = toRegExp(pattern, flags);
+  // With 'g' or 'y', match() drops the groups and lastIndex carries over between values
+  const regex = new RegExp(source.source, source.flags.replace(/[gy]/g, ''));
+  return value => {
+    const match = regex.exec(String(value));
+    if (!match) {
+      return null;
+    }
+    const key = group ?? (match.length > 1 ? 1 : 0);
+    return (typeof key === 'string' ? match.groups?.[key] : match[key]) ?? null;
+  };
+});
+
+registerTransform('replace', ({ pattern, replacement = '', flags = 'g' }) => {
+  const regex = toRegExp(pattern, flags);
+  return value => String(value).replace(regex, replacement);
+});
+
+// Map words to booleans; anything unrecognised becomes null
+registerTransform('boolean', ({ true: truthy = TRUE_WORDS, false: falsy = FALSE_WORDS }) => {
+  const lower = (words: string[]) => words.map(word => word.toLowerCase());
+  const [yes, no] = [lower(truthy), lower(falsy)];
+  return value => {
+    const word = String(value).trim().toLowerCase();
+    return yes.includes(word) ? true : no.includes(word) ? false : null;
+  };
+});
+
+// Split into trimmed, non-empty parts (default separator: ',')
+registerTransform('split', ({ separator = ',' }) => value =>
+  String(value).split(separator).map(part => part.trim()).filter(part => part.length > 0)
+);
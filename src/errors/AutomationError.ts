@@ -0,0 +1,134 @@
+export type AutomationErrorKind =
+  | 'selector-not-found'        // No element ever matched the selector
+  | 'ambiguous-selector'        // Several elements matched where exactly one was required
+  | 'element-not-interactable'  // Element matched but was hidden, covered, disabled or unstable
+  | 'timeout'                   // The action ran out of time for another reason
+  | 'navigation'                // A navigation failed or timed out
+  | 'page-crashed'              // The page's renderer crashed
+  | 'target-closed'             // The page, context or browser was closed
+  | 'unknown';
+
+export interface AutomationErrorContext {
+  action: string;               // SDK method that failed, e.g. 'click'
+  selector?: string | string[];
+  url?: string;
+  elapsed: number;              // Milliseconds from the start of the action to the failure
+  attempts?: number;            // How many times the action was tried
+  cause?: unknown;              // The original Playwright error
+}
+
+/**
+ * Base class for every error raised by SDK actions
+ */
+export class AutomationError extends Error {
+  readonly kind: AutomationErrorKind;
+  readonly action: string;
+  readonly selector?: string | string[];
+  readonly url?: string;
+  readonly elapsed: number;
+  attempts: number;
+  readonly cause?: unknown;
+
+  constructor(kind: AutomationErrorKind, message: string, context: AutomationErrorContext) {
+    const target = context.selector ? ` on ${JSON.stringify(context.selector)}` : '';
+    super(`${context.action}${target} failed after ${context.elapsed}ms: ${message}`);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.action = context.action;
+    this.selector = context.selector;
+    this.url = context.url;
+    this.elapsed = context.elapsed;
+    this.attempts = context.attempts || 1;
+    this.cause = context.cause;
+  }
+}
+
+export class SelectorNotFoundError extends AutomationError {
+  constructor(message: string, context: AutomationErrorContext) {
+    super('selector-not-found', message, context);
+  }
+}
+
+export class AmbiguousSelectorError extends AutomationError {
+  constructor(message: string, context: AutomationErrorContext) {
+    super('ambiguous-selector', message, context);
+  }
+}
+
+export class ElementNotInteractableError extends AutomationError {
+  constructor(message: string, context: AutomationErrorContext) {
+    super('element-not-interactable', message, context);
+  }
+}
+
+export class ActionTimeoutError extends AutomationError {
+  constructor(message: string, context: AutomationErrorContext) {
+    super('timeout', message, context);
+  }
+}
+
+export class NavigationError extends AutomationError {
+  constructor(message: string, context: AutomationErrorContext) {
+    super('navigation', message, context);
+  }
+}
+
+export class PageCrashedError extends AutomationError {
+  constructor(message: string, context: AutomationErrorContext) {
+    super('page-crashed', message, context);
+  }
+}
+
+export class TargetClosedError extends AutomationError {
+  constructor(message: string, context: AutomationErrorContext) {
+    super('target-closed', message, context);
+  }
+}
+
+/**
+ * Errors after which the page cannot be used any more
+ */
+export function isFatalError(error: unknown): boolean {
+  return error instanceof AutomationError && (error.kind === 'page-crashed' || error.kind === 'target-closed');
+}
+
+const NOT_INTERACTABLE = /intercepts pointer events|element is not (visible|enabled|stable|editable|attached)|outside of the viewport|not an? (<input>|<select>|checkbox|radio)/i;
+
+/**
+ * Classify a raw error from Playwright into the matching SDK error.
+ * Errors that already are AutomationErrors are returned unchanged.
+ */
+export function toAutomationError(error: unknown, context: AutomationErrorContext): AutomationError {
+  if (error instanceof AutomationError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const firstLine = message.split('\n')[0];
+  const withCause = { ...context, cause: error };
+  const isTimeout = (error instanceof Error && error.name === 'TimeoutError') || /Timeout \d+ms exceeded/.test(message);
+
+  if (/crash/i.test(firstLine)) {
+    return new PageCrashedError(firstLine, withCause);
+  }
+  if (/Target( page, context or browser)? (has been )?closed|Browser has been closed/i.test(message)) {
+    return new TargetClosedError(firstLine, withCause);
+  }
+  if (/strict mode violation/i.test(message)) {
+    return new AmbiguousSelectorError(firstLine, withCause);
+  }
+  if (/net::ERR_|NS_ERROR_|navigation|page\.goto|page\.goBack|page\.goForward|page\.reload|waitForURL/i.test(firstLine)) {
+    return new NavigationError(firstLine, withCause);
+  }
+  if (NOT_INTERACTABLE.test(message)) {
+    return new ElementNotInteractableError(firstLine, withCause);
+  }
+  if (isTimeout) {
+    // Playwright logs "locator resolved to ..." once the element exists
+    if (context.selector && !/resolved to/.test(message)) {
+      return new SelectorNotFoundError(firstLine, withCause);
+    }
+    return new ActionTimeoutError(firstLine, withCause);
+  }
+  return new AutomationError('unknown', firstLine, withCause);
+}
@@ -0,0 +1,54 @@
+import { AutomationError, AutomationErrorKind } from './AutomationError';
+
+export interface RetryPolicy {
+  retries: number;                  // Extra attempts after the first one (default: 0)
+  delay: number;                    // Wait before the first retry in milliseconds (default: 250)
+  backoff: number;                  // Multiplier applied to the delay after each retry (default: 2)
+  maxDelay: number;                 // Upper bound for the delay (default: 5000)
+  retryOn: AutomationErrorKind[];   // Error kinds that are worth another attempt
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 0,
+  delay: 250,
+  backoff: 2,
+  maxDelay: 5000,
+  retryOn: ['selector-not-found', 'element-not-interactable', 'timeout']
+};
+
+/**
+ * Merge partial policies over the defaults; later policies win
+ */
+export function resolveRetryPolicy(...policies: (Partial<RetryPolicy> | undefined)[]): RetryPolicy {
+  return Object.assign({}, DEFAULT_RETRY_POLICY, ...policies.filter(Boolean));
+}
+
+/**
+ * Run an operation, retrying with exponential backoff while it fails with a
+ * retryable AutomationError. The final error carries the number of attempts.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (error: AutomationError, attempt: number, delay: number) => void
+): Promise<T> {
+  let delay = policy.delay;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const retryable = error instanceof AutomationError && policy.retryOn.includes(error.kind);
+      if (!retryable || attempt > policy.retries) {
+        if (error instanceof AutomationError) {
+          error.attempts = attempt;
+        }
+        throw error;
+      }
+
+      onRetry?.(error as AutomationError, attempt, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * policy.backoff, policy.maxDelay);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { EventEmitter } from 'events';
+import { BrowserContext, Page } from 'playwright';
+import { Logger } from '../logging/Logger';
+import type { Tracer } from '../tracing/Tracer';
+
+export interface ActionStartEvent {
+  action: string;
+  args: Record<string, unknown>;
+  url: string;
+  timestamp: number;
+}
+
+export interface ActionEndEvent extends ActionStartEvent {
+  duration: number;
+  result?: unknown;
+}
+
+export interface ActionErrorEvent extends ActionStartEvent {
+  duration: number;
+  error: Error;
+  expected?: boolean;   // The caller handles this failure, e.g. an optional element that is missing
+}
+
+export interface NavigationEvent {
+  source: string;       // What triggered it, e.g. 'goto' or 'goBack'
+  url: string;
+  duration: number;
+  timestamp: number;
+  error?: Error;
+}
+
+export interface ExtractionRuleEvent {
+  key: string;
+  selector: string;
+  url: string;
+  duration: number;
+  success: boolean;
+  valueCount: number;   // Number of values for multiple rules, 1 or 0 otherwise
+  error?: Error;
+}
+
+export interface AutomationEventMap {
+  'action:start': ActionStartEvent;
+  'action:end': ActionEndEvent;
+  'action:error': ActionErrorEvent;
+  'navigation': NavigationEvent;
+  'extraction:rule': ExtractionRuleEvent;
+}
+
+export type AutomationEventName = keyof AutomationEventMap;
+
+/**
+ * Typed event emitter for action lifecycle, navigation and extraction events
+ */
+export class AutomationEvents extends EventEmitter {
+  on<K extends AutomationEventName>(event: K, listener: (payload: AutomationEventMap[K]) => void): this {
+    return super.on(event, listener);
+  }
+
+  once<K extends AutomationEventName>(event: K, listener: (payload: AutomationEventMap[K]) => void): this {
+    return super.once(event, listener);
+  }
+
+  off<K extends AutomationEventName>(event: K, listener: (payload: AutomationEventMap[K]) => void): this {
+    return super.off(event, listener);
+  }
+
+  emit<K extends AutomationEventName>(event: K, payload: AutomationEventMap[K]): boolean {
+    return super.emit(event, payload);
+  }
+}
+
+export interface Observers {
+  logger?: Logger;
+  events?: AutomationEvents;
+  tracer?: Tracer;      // Captures failure artifacts when tracing is on
+}
+
+// Observers registered by AutomationBrowser for its contexts, so that a
+// `new BrowserActions(page)` picks up the browser's logger and events
+const contextObservers = new WeakMap<BrowserContext, Observers>();
+
+/**
+ * Register the logger and event emitter used for every page of a context
+ */
+export function bindObservers(context: BrowserContext, observers: Observers): void {
+  contextObservers.set(context, observers);
+}
+
+/**
+ * Look up the observers registered for a page's context
+ */
+export function observersFor(page: Page): Observers {
+  try {
+    return contextObservers.get(page.context()) || {};
+  } catch (error) {
+    return {};
+  }
+}
@@ -0,0 +1,284 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExtractedData } from '../dom/DataExtractor';
+
+export type ExportFormat = 'json' | 'csv' | 'ndjson' | 'markdown';
+
+export interface ExportColumn {
+  key: string;                        // Flattened key, e.g. "author.name" or "tags"
+  header?: string;                    // Column title (default: the key)
+}
+
+export interface ExportOptions {
+  format?: ExportFormat;              // Default: from the file extension, otherwise json
+  columns?: (string | ExportColumn)[]; // Columns and their order (default: every key, in first-seen order)
+  rows?: 'auto' | 'record' | string;  // 'record': one row per ExtractedData; a key: one row per item of
+                                      // that array field; 'auto': the first array of objects in a single
+                                      // record, else one row per record (default: 'auto', ndjson: 'record')
+  includeMetadata?: boolean;          // Keep _metadata/_pagination/_validation (default: true for json, false otherwise)
+  separator?: string;                 // Joins nested keys when flattening (default: '.')
+  arraySeparator?: string;            // Joins arrays of plain values in one cell (default: '; ')
+  delimiter?: string;                 // CSV field delimiter (default: ',')
+  pretty?: boolean;                   // Pretty-print JSON (default: true)
+  append?: boolean;                   // writeExport: add to an existing file instead of replacing it
+}
+
+type Cell = string | number | boolean | null;
+
+const EXTENSIONS: Record<string, ExportFormat> = {
+  '.csv': 'csv',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.json': 'json'
+};
+
+/**
+ * Pick the export format for a file path from its extension
+ */
+export function formatForPath(filePath: string): ExportFormat {
+  return EXTENSIONS[path.extname(filePath).toLowerCase()] || 'json';
+}
+
+function stripMetadata(record: ExtractedData): ExtractedData {
+  const { _metadata, _pagination, _validation, ...fields } = record;
+  return fields;
+}
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Flatten nested objects into dotted keys. Arrays of plain values are joined
+ * into one cell; arrays of objects are indexed, e.g. "comments.0.author".
+ */
+export function flattenRecord(value: Record<string, any>, options: ExportOptions = {}, prefix: string = ''): Record<string, Cell> {
+  const separator = options.separator ?? '.';
+  const arraySeparator = options.arraySeparator ?? '; ';
+  const flat: Record<string, Cell> = {};
+
+  for (const [key, child] of Object.entries(value)) {
+    const name = prefix ? `${prefix}${separator}${key}` : key;
+    if (isPlainObject(child)) {
+      Object.assign(flat, flattenRecord(child, options, name));
+    } else if (Array.isArray(child)) {
+      if (child.some(isPlainObject)) {
+        child.forEach((item, index) => {
+          Object.assign(flat, isPlainObject(item) ? flattenRecord(item, options, `${name}${separator}${index}`) : { [`${name}${separator}${index}`]: item });
+        });
+      } else {
+        flat[name] = child.filter(item => item !== null && item !== undefined).join(arraySeparator);
+      }
+    } else {
+      flat[name] = child === undefined ? null : child;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Turn one or more extraction results into flat rows according to `rows`
+ */
+export function toRows(data: ExtractedData | ExtractedData[], options: ExportOptions = {}): Record<string, Cell>[] {
+  const records = (Array.isArray(data) ? data : [data]).map(record => (options.includeMetadata ? record : stripMetadata(record)));
+  const mode = options.rows || 'auto';
+
+  let listKey: string | null = null;
+  if (mode === 'auto' && records.length === 1) {
+    const fields = stripMetadata(records[0]);
+    listKey = Object.keys(fields).find(key => Array.isArray(fields[key]) && fields[key].some(isPlainObject)) || null;
+  } else if (mode !== 'auto' && mode !== 'record') {
+    listKey = mode;
+  }
+
+  if (!listKey) {
+    return records.map(record => flattenRecord(record, options));
+  }
+  return records.flatMap(record =>
+    (Array.isArray(record[listKey!]) ? record[listKey!] : []).map((item: any) =>
+      flattenRecord(isPlainObject(item) ? item : { [listKey!]: item }, options)
+    )
+  );
+}
+
+function resolveColumns(rows: Record<string, Cell>[], options: ExportOptions): ExportColumn[] {
+  if (options.columns) {
+    return options.columns.map(column => (typeof column === 'string' ? { key: column } : column));
+  }
+  return Array.from(new Set(rows.flatMap(row => Object.keys(row)))).map(key => ({ key }));
+}
+
+const cellText = (value: Cell | undefined) => (value === null || value === undefined ? '' : String(value));
+
+/**
+ * Convert extraction results to CSV. `header: false` leaves out the header row (used when appending).
+ */
+export function toCsv(data: ExtractedData | ExtractedData[], options: ExportOptions = {}, header: boolean = true): string {
+  const rows = toRows(data, options);
+  const columns = resolveColumns(rows, options);
+  const delimiter = options.delimiter || ',';
+  const escape = (text: string) => (text.includes(delimiter) || /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+  const lines = rows.map(row => columns.map(column => escape(cellText(row[column.key]))).join(delimiter));
+  if (header) {
+    lines.unshift(columns.map(column => escape(column.header || column.key)).join(delimiter));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Convert extraction results to newline-delimited JSON, one record (or row) per line
+ */
+export function toNdjson(data: ExtractedData | ExtractedData[], options: ExportOptions = {}): string {
+  const mode = options.rows || 'record';
+  if (mode === 'record' && !options.columns) {
+    const records = (Array.isArray(data) ? data : [data]).map(record => (options.includeMetadata ? record : stripMetadata(record)));
+    return records.map(record => JSON.stringify(record)).join('\n');
+  }
+
+  const rows = toRows(data, { ...options, rows: mode });
+  const columns = options.columns ? resolveColumns(rows, options) : null;
+  return rows
+    .map(row => (columns ? Object.fromEntries(columns.map(column => [column.header || column.key, row[column.key] ?? null])) : row))
+    .map(row => JSON.stringify(row))
+    .join('\n');
+}
+
+/**
+ * Convert extraction results to a Markdown table. `header: false` leaves out the header rows.
+ */
+export function toMarkdown(data: ExtractedData | ExtractedData[], options: ExportOptions = {}, header: boolean = true): string {
+  const rows = toRows(data, options);
+  const columns = resolveColumns(rows, options);
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+  const lines = rows.map(row => `| ${columns.map(column => escape(cellText(row[column.key]))).join(' | ')} |`);
+  if (header) {
+    lines.unshift(
+      `| ${columns.map(column => escape(column.header || column.key)).join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Serialize extraction results in the given format
+ */
+export function exportData(data: ExtractedData | ExtractedData[], options: ExportOptions = {}): string {
+  switch (options.format || 'json') {
+    case 'csv':
+      return toCsv(data, options);
+    case 'ndjson':
+      return toNdjson(data, options);
+    case 'markdown':
+      return toMarkdown(data, options);
+    default: {
+      const value = options.includeMetadata === false
+        ? (Array.isArray(data) ? data.map(stripMetadata) : stripMetadata(data))
+        : data;
+      return JSON.stringify(value, null, options.pretty === false ? 0 : 2);
+    }
+  }
+}
+
+/**
+ * Columns for rows appended to an existing CSV or Markdown export. Rows are
+ * matched to columns by key; the file's header only has to agree.
+ */
+function appendColumns(data: ExtractedData | ExtractedData[], filePath: string, format: ExportFormat, options: ExportOptions): ExportColumn[] {
+  const header = existingColumns(filePath, format, options) || [];
+  const rows = toRows(data, options);
+
+  if (options.columns) {
+    const columns = resolveColumns(rows, options);
+    const titles = columns.map(column => column.header || column.key);
+    if (titles.join('\n') !== header.join('\n')) {
+      throw new Error(`Cannot append to ${filePath}: columns [${titles.join(', ')}] do not match its header [${header.join(', ')}]`);
+    }
+    return columns;
+  }
+
+  const added = resolveColumns(rows, {}).filter(column => !header.includes(column.key));
+  if (added.length > 0) {
+    throw new Error(`Cannot append to ${filePath}: its header has no column for ${added.map(column => column.key).join(', ')}; ` +
+      'pass columns to choose what to keep or write a new file');
+  }
+  return header.map(key => ({ key }));
+}
+
+/**
+ * Read the header row of an existing CSV or Markdown export
+ */
+function existingColumns(filePath: string, format: ExportFormat, options: ExportOptions): string[] | undefined {
+  const firstLine = fs.readFileSync(filePath, 'utf8').split(/\r?\n/)[0];
+  if (format === 'markdown') {
+    return firstLine.replace(/^\|\s*|\s*\|$/g, '').split(/\s*(?<!\\)\|\s*/).map(cell => cell.replace(/\\\|/g, '|'));
+  }
+  if (format !== 'csv') {
+    return undefined;
+  }
+
+  const delimiter = options.delimiter || ',';
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < firstLine.length; i++) {
+    const char = firstLine[i];
+    if (quoted) {
+      if (char === '"' && firstLine[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Write extraction results to a file, picking the format from the extension.
+ * With `append`, CSV and Markdown rows are added under the existing header,
+ * NDJSON lines are appended, and JSON files are extended as an array.
+ * Appending throws instead of dropping data when rows have keys the header
+ * lacks, or when `columns` would write a different header.
+ */
+export function writeExport(data: ExtractedData | ExtractedData[], filePath: string, options: ExportOptions = {}): void {
+  const format = options.format || formatForPath(filePath);
+  const exists = fs.existsSync(filePath) && fs.statSync(filePath).size > 0;
+
+  if (!options.append || !exists) {
+    fs.writeFileSync(filePath, `${exportData(data, { ...options, format })}\n`, 'utf8');
+    return;
+  }
+
+  // Keep the existing file's columns so appended rows line up with its header
+  const columns = format === 'csv' || format === 'markdown' ? appendColumns(data, filePath, format, options) : undefined;
+  switch (format) {
+    case 'csv':
+      fs.appendFileSync(filePath, `${toCsv(data, { ...options, columns }, false)}\n`, 'utf8');
+      return;
+    case 'markdown':
+      fs.appendFileSync(filePath, `${toMarkdown(data, { ...options, columns }, false)}\n`, 'utf8');
+      return;
+    case 'ndjson':
+      fs.appendFileSync(filePath, `${toNdjson(data, options)}\n`, 'utf8');
+      return;
+    default: {
+      const existing = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const records = [...(Array.isArray(existing) ? existing : [existing]), ...(Array.isArray(data) ? data : [data])];
+      fs.writeFileSync(filePath, `${exportData(records, { ...options, format })}\n`, 'utf8');
+    }
+  }
+}
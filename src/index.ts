@@ -1,19 +1,192 @@
 // Main entry point for automation-ts-sdk
 // Export all public APIs from here
 
-export { AutomationBrowser, BrowserType, BrowserConfig } from './browser/AutomationBrowser';
-export { DomExtractor, DomNode, DomExtractionOptions } from './dom/DomExtractor';
+export { AutomationBrowser, BrowserType, BrowserConfig, NetworkConfig } from './browser/AutomationBrowser';
+export { ContextPool, ContextPoolOptions, PoolLease } from './browser/ContextPool';
+export {
+  NetworkInterceptor,
+  RouteRule,
+  RouteAction,
+  UrlMatcher,
+  ArchiveOptions
+} from './browser/network/NetworkInterceptor';
+export {
+  DomExtractor,
+  DomNode,
+  DomExtractionOptions,
+  DomWatchOptions,
+  DomSubscription,
+  DomLayout,
+  VisibilityReason
+} from './dom/DomExtractor';
+export { diffDomTrees, nodeAtPath, DomChange, DomChangeType } from './dom/DomDiff';
+export { selectorFor, xpathFor, STABLE_ATTRIBUTES } from './dom/Selectors';
+export {
+  DomTransform,
+  dropAttributes,
+  collapseWrappers,
+  dropEmptyElements,
+  applyDomTransforms
+} from './dom/DomTransforms';
+export {
+  extractAccessibilityTree,
+  accessibilityTreeToString,
+  AccessibilityNode,
+  AccessibilityStates,
+  AccessibilityOptions
+} from './dom/AccessibilityTree';
+export {
+  extractCompactDom,
+  compactDomToString,
+  CompactDom,
+  CompactNode,
+  CompactDomOptions,
+  INDEX_ATTRIBUTE
+} from './dom/CompactDom';
 export { 
   BrowserActions, 
+  BrowserActionsOptions,
+  ActionOptions,
   ClickOptions, 
   TypeOptions, 
   ScrollOptions, 
   WaitOptions, 
-  ScreenshotOptions 
+  ScreenshotOptions,
+  SelectorTarget,
+  SelectorMatch
 } from './browser/actions/BrowserActions';
 export {
   DataExtractor,
   ExtractionRule,
   ExtractionOptions,
-  ExtractedData
-} from './dom/DataExtractor'; 
\ No newline at end of file
+  ExtractedData,
+  PaginationOptions
+} from './dom/DataExtractor';
+export {
+  ExtractionSchema,
+  SchemaField,
+  SchemaShape,
+  SchemaResult,
+  InferField,
+  InferSchema,
+  ValidationReport,
+  ValidationIssue,
+  ValidationCheck,
+  FieldValidation,
+  defineSchema,
+  field,
+  validateExtraction
+} from './dom/ExtractionSchema';
+export {
+  TransformContext,
+  TransformStep,
+  TransformOutputs,
+  NamedTransform,
+  ValueTransform,
+  Price,
+  registerTransform,
+  resolveTransform,
+  parseNumber,
+  parsePrice,
+  parseDate
+} from './dom/ValueTransforms';
+export {
+  ParsedTable,
+  RawTable,
+  RawTableRow,
+  RawTableCell,
+  TableOptions,
+  TableSection,
+  TableValue,
+  ColumnType,
+  extractTables,
+  parseTable
+} from './dom/TableParser';
+export {
+  StructuredData,
+  StructuredDataOptions,
+  StructuredDataSource,
+  StructuredItem,
+  extractStructuredData
+} from './dom/StructuredData';
+export {
+  ExportFormat,
+  ExportColumn,
+  ExportOptions,
+  exportData,
+  writeExport,
+  formatForPath,
+  flattenRecord,
+  toRows,
+  toCsv,
+  toNdjson,
+  toMarkdown
+} from './export/Exporters';
+export {
+  Crawler,
+  CrawlerOptions,
+  CrawlResult,
+  UrlPattern,
+  normalizeUrl
+} from './crawler/Crawler';
+export { Recorder, RecorderOptions, RecordedStep } from './recorder/Recorder';
+export {
+  Workflow,
+  WorkflowStep,
+  WorkflowCondition,
+  validateWorkflow,
+  loadWorkflow
+} from './workflow/Workflow';
+export {
+  WorkflowRunner,
+  WorkflowRunnerOptions,
+  WorkflowResult,
+  StepResult
+} from './workflow/WorkflowRunner';
+export {
+  AutomationError,
+  AutomationErrorKind,
+  AutomationErrorContext,
+  SelectorNotFoundError,
+  AmbiguousSelectorError,
+  ElementNotInteractableError,
+  ActionTimeoutError,
+  NavigationError,
+  PageCrashedError,
+  TargetClosedError,
+  toAutomationError,
+  isFatalError
+} from './errors/AutomationError';
+export {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  withRetry
+} from './errors/RetryPolicy';
+export {
+  Tracer,
+  TraceOptions,
+  TraceEntry,
+  TraceBundle,
+  FailureArtifacts
+} from './tracing/Tracer';
+export {
+  Logger,
+  LogLevel,
+  consoleLogger,
+  silentLogger,
+  createJsonLogger
+} from './logging/Logger';
+export {
+  AutomationEvents,
+  AutomationEventMap,
+  AutomationEventName,
+  ActionStartEvent,
+  ActionEndEvent,
+  ActionErrorEvent,
+  NavigationEvent,
+  ExtractionRuleEvent,
+  Observers,
+  bindObservers,
+  observersFor
+} from './events/AutomationEvents';
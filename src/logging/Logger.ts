@@ -0,0 +1,55 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Destination for SDK log messages. Pass one to AutomationBrowser, BrowserActions,
+ * DataExtractor or DomExtractor to silence or redirect their output.
+ */
+export interface Logger {
+  debug(message: string, meta?: Record<string, unknown>): void;
+  info(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+  error(message: string, meta?: Record<string, unknown>): void;
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Logger that writes to the console; this is the default everywhere
+ */
+export const consoleLogger: Logger = {
+  debug: (message, meta) => (meta ? console.debug(message, meta) : console.debug(message)),
+  info: (message, meta) => (meta ? console.info(message, meta) : console.info(message)),
+  warn: (message, meta) => (meta ? console.warn(message, meta) : console.warn(message)),
+  error: (message, meta) => (meta ? console.error(message, meta) : console.error(message))
+};
+
+/**
+ * Logger that discards everything
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+/**
+ * Create a logger that writes one JSON object per line, skipping messages below `minLevel`
+ */
+export function createJsonLogger(
+  write: (line: string) => void = line => process.stdout.write(`${line}\n`),
+  minLevel: LogLevel = 'info'
+): Logger {
+  const log = (level: LogLevel) => (message: string, meta?: Record<string, unknown>) => {
+    if (LEVELS.indexOf(level) >= LEVELS.indexOf(minLevel)) {
+      write(JSON.stringify({ time: new Date().toISOString(), level, message, ...meta }));
+    }
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error')
+  };
+}
@@ -0,0 +1,349 @@
+import * as fs from 'fs';
+import { Page } from 'playwright';
+import { AutomationBrowser, BrowserConfig } from '../browser/AutomationBrowser';
+
+export type RecordedStep =
+  | { action: 'goto'; url: string }
+  | { action: 'waitForUrl'; url: string }
+  | { action: 'click'; selector: string }
+  | { action: 'type'; selector: string; text: string }  // Password fields hold PASSWORD_VARIABLE, never the typed text
+  | { action: 'press'; key: string }
+  | { action: 'selectOption'; selector: string; value: string | string[] }
+  | { action: 'check'; selector: string }
+  | { action: 'uncheck'; selector: string }
+  | { action: 'scrollBy'; x: number; y: number };
+
+export interface RecorderOptions {
+  browser?: Partial<BrowserConfig>;   // Browser settings; the recorder always runs headed
+  importPath?: string;                // Module imported by generated scripts (default: 'automation-ts-sdk')
+}
+
+// Recorded in place of passwords; a workflow variable in JSON, process.env.PASSWORD in scripts
+const PASSWORD_VARIABLE = '{{password}}';
+
+/**
+ * In-page listener installed on every document. Runs in the browser, so it must
+ * be self-contained.
+ */
+function installRecorderListeners(): void {
+  const w = window as any;
+  if (w.__automationRecorderInstalled) {
+    return;
+  }
+  w.__automationRecorderInstalled = true;
+
+  const send = (step: any) => w.__automationRecordStep(step);
+
+  const cssEscape = (value: string) => (window as any).CSS && CSS.escape ? CSS.escape(value) : value.replace(/["\\]/g, '\\$&');
+
+  const isUnique = (selector: string) => {
+    try {
+      return document.querySelectorAll(selector).length === 1;
+    } catch (error) {
+      return false;
+    }
+  };
+
+  const quote = (value: string) => value.replace(/["\\]/g, '\\$&');
+  const normalize = (text: string | null) => (text || '').trim().replace(/\s+/g, ' ');
+
+  // Prefer stable attributes, then visible text, then a structural path
+  const selectorFor = (element: Element): string => {
+    const tag = element.tagName.toLowerCase();
+
+    if (element.id && isUnique(`#${cssEscape(element.id)}`)) {
+      return `#${cssEscape(element.id)}`;
+    }
+    for (const attr of ['data-testid', 'data-test', 'data-qa', 'name', 'aria-label', 'placeholder']) {
+      const value = element.getAttribute(attr);
+      if (value) {
+        const selector = `${tag}[${attr}="${quote(value)}"]`;
+        if (isUnique(selector)) {
+          return selector;
+        }
+      }
+    }
+
+    // :has-text is a case-insensitive substring match, so check no other element of the tag matches too
+    const text = normalize(element.textContent);
+    if ((tag === 'button' || tag === 'a') && text && text.length <= 50) {
+      const matches = Array.from(document.querySelectorAll(tag))
+        .filter(candidate => normalize(candidate.textContent).toLowerCase().includes(text.toLowerCase()));
+      if (matches.length === 1) {
+        return `${tag}:has-text("${quote(text)}")`;
+      }
+    }
+
+    const parts: string[] = [];
+    let current: Element | null = element;
+    while (current && current !== document.documentElement) {
+      const currentTag: string = current.tagName.toLowerCase();
+      if (current.id && isUnique(`#${cssEscape(current.id)}`)) {
+        parts.unshift(`#${cssEscape(current.id)}`);
+        break;
+      }
+      const parent: Element | null = current.parentElement;
+      const siblings = parent ? Array.from(parent.children).filter((child: Element) => child.tagName === current!.tagName) : [];
+      parts.unshift(siblings.length > 1 ? `${currentTag}:nth-of-type(${siblings.indexOf(current) + 1})` : currentTag);
+      current = parent;
+    }
+    return parts.join(' > ');
+  };
+
+  const isTextInput = (element: Element) => {
+    if (element instanceof HTMLTextAreaElement) {
+      return true;
+    }
+    if (element instanceof HTMLInputElement) {
+      return !['checkbox', 'radio', 'submit', 'button', 'reset', 'file', 'image'].includes(element.type);
+    }
+    return (element as HTMLElement).isContentEditable;
+  };
+
+  // Passwords are replaced by a variable so they never reach the recording
+  const isSecret = (element: Element) =>
+    element instanceof HTMLInputElement &&
+    (element.type === 'password' || element.autocomplete.split(/\s+/).some(token => token === 'current-password' || token === 'new-password'));
+
+  document.addEventListener('click', event => {
+    const target = event.target as Element | null;
+    if (!target || !event.isTrusted) {
+      return;
+    }
+    // Focus clicks on fields and toggles are covered by the input/change events
+    if (isTextInput(target) || target instanceof HTMLSelectElement ||
+        (target instanceof HTMLInputElement && ['checkbox', 'radio'].includes(target.type))) {
+      return;
+    }
+    const clickable = target.closest('a, button, [role="button"], input, label, summary') || target;
+    send({ action: 'click', selector: selectorFor(clickable) });
+  }, true);
+
+  document.addEventListener('input', event => {
+    const target = event.target as Element | null;
+    if (target && event.isTrusted && isTextInput(target)) {
+      if (isSecret(target)) {
+        send({ action: 'type', selector: selectorFor(target), text: '{{password}}' });
+        return;
+      }
+      const text = (target as HTMLInputElement).value ?? (target as HTMLElement).innerText;
+      send({ action: 'type', selector: selectorFor(target), text });
+    }
+  }, true);
+
+  document.addEventListener('change', event => {
+    const target = event.target as Element | null;
+    if (!target || !event.isTrusted) {
+      return;
+    }
+    if (target instanceof HTMLSelectElement) {
+      const values = Array.from(target.selectedOptions).map(option => option.value);
+      send({ action: 'selectOption', selector: selectorFor(target), value: target.multiple ? values : values[0] });
+    } else if (target instanceof HTMLInputElement && ['checkbox', 'radio'].includes(target.type)) {
+      send({ action: target.checked ? 'check' : 'uncheck', selector: selectorFor(target) });
+    }
+  }, true);
+
+  document.addEventListener('keydown', event => {
+    if (event.isTrusted && ['Enter', 'Escape', 'Tab'].includes(event.key)) {
+      send({ action: 'press', key: event.key });
+    }
+  }, true);
+
+  let lastX = window.scrollX;
+  let lastY = window.scrollY;
+  let scrollTimer: any = null;
+  window.addEventListener('scroll', () => {
+    clearTimeout(scrollTimer);
+    scrollTimer = setTimeout(() => {
+      const x = window.scrollX - lastX;
+      const y = window.scrollY - lastY;
+      lastX = window.scrollX;
+      lastY = window.scrollY;
+      if (x !== 0 || y !== 0) {
+        send({ action: 'scrollBy', x, y });
+      }
+    }, 500);
+  }, true);
+}
+
+/**
+ * Records user interactions in a headed browser and turns them into
+ * BrowserActions scripts or JSON step lists.
+ */
+export class Recorder {
+  private options: RecorderOptions;
+  private browser: AutomationBrowser | null = null;
+  private page: Page | null = null;
+  private steps: RecordedStep[] = [];
+  private lastInteraction = 0;
+
+  constructor(options: RecorderOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Launch a headed browser, open the start URL and begin recording
+   */
+  async start(url: string): Promise<Page> {
+    if (this.browser) {
+      throw new Error('Recorder already started');
+    }
+
+    this.steps = [{ action: 'goto', url }];
+    this.browser = new AutomationBrowser({
+      type: 'chrome',
+      ...this.options.browser,
+      headless: false
+    });
+    await this.browser.launch();
+
+    const context = this.browser.getContext()!;
+    await context.exposeBinding('__automationRecordStep', (_source, step: RecordedStep) => this.addStep(step));
+    await context.addInitScript(installRecorderListeners);
+
+    this.page = await this.browser.goto(url);
+    this.page.on('framenavigated', frame => {
+      if (frame !== this.page!.mainFrame() || frame.url() === 'about:blank') {
+        return;
+      }
+      const last = this.steps[this.steps.length - 1];
+      if (last && 'url' in last && last.url === frame.url()) {
+        return;
+      }
+      // Navigations shortly after an interaction were caused by it; others were typed by the user
+      const caused = Date.now() - this.lastInteraction < 2000;
+      this.steps.push(caused ? { action: 'waitForUrl', url: frame.url() } : { action: 'goto', url: frame.url() });
+    });
+
+    return this.page;
+  }
+
+  /**
+   * Resolve once the user closes the recorded page
+   */
+  async waitForClose(): Promise<void> {
+    if (!this.page || this.page.isClosed()) {
+      return;
+    }
+    await new Promise<void>(resolve => this.page!.once('close', () => resolve()));
+  }
+
+  /**
+   * Stop recording, close the browser and return the captured steps
+   */
+  async stop(): Promise<RecordedStep[]> {
+    if (this.browser) {
+      await this.browser.close();
+      this.browser = null;
+      this.page = null;
+    }
+    return this.getSteps();
+  }
+
+  /**
+   * Get a copy of the steps captured so far
+   */
+  getSteps(): RecordedStep[] {
+    return this.steps.map(step => ({ ...step }));
+  }
+
+  /**
+   * Add a step, merging consecutive typing into the same field
+   */
+  private addStep(step: RecordedStep): void {
+    this.lastInteraction = Date.now();
+    const last = this.steps[this.steps.length - 1];
+
+    if (step.action === 'type' && last?.action === 'type' && last.selector === step.selector) {
+      last.text = step.text;
+      return;
+    }
+    if (step.action === 'scrollBy' && last?.action === 'scrollBy') {
+      last.x += step.x;
+      last.y += step.y;
+      return;
+    }
+    this.steps.push(step);
+  }
+
+  // ============ OUTPUT ============
+
+  /**
+   * Serialize the steps as a JSON step list
+   */
+  toJSON(pretty: boolean = true): string {
+    return JSON.stringify(this.steps, null, pretty ? 2 : 0);
+  }
+
+  /**
+   * Generate a TypeScript script that replays the steps with BrowserActions
+   */
+  toScript(): string {
+    const importPath = this.options.importPath || 'automation-ts-sdk';
+    const browserType = this.options.browser?.type || 'chrome';
+    const str = (value: unknown) => JSON.stringify(value);
+    const first = this.steps[0];
+    const lines: string[] = [];
+
+    for (const step of this.steps.slice(first?.action === 'goto' ? 1 : 0)) {
+      switch (step.action) {
+        case 'goto':
+          lines.push(`await page.goto(${str(step.url)});`);
+          break;
+        case 'waitForUrl':
+          lines.push(`await page.waitForURL(${str(step.url)});`);
+          break;
+        case 'click':
+          lines.push(`await actions.click(${str(step.selector)});`);
+          break;
+        case 'type':
+          lines.push(`await actions.type(${str(step.selector)}, ${step.text === PASSWORD_VARIABLE ? "process.env.PASSWORD || ''" : str(step.text)}, { clear: true });`);
+          break;
+        case 'press':
+          lines.push(`await actions.press(${str(step.key)});`);
+          break;
+        case 'selectOption':
+          lines.push(`await actions.selectOption(${str(step.selector)}, ${str(step.value)});`);
+          break;
+        case 'check':
+        case 'uncheck':
+          lines.push(`await actions.${step.action}(${str(step.selector)});`);
+          break;
+        case 'scrollBy':
+          lines.push(`await actions.scrollBy(${step.x}, ${step.y});`);
+          break;
+      }
+    }
+
+    const startUrl = first?.action === 'goto' ? first.url : 'about:blank';
+    return [
+      `import { AutomationBrowser, BrowserActions } from ${str(importPath)};`,
+      '',
+      'async function run() {',
+      `  const browser = new AutomationBrowser({ type: ${str(browserType)}, headless: false });`,
+      '',
+      '  try {',
+      '    await browser.launch();',
+      `    const page = await browser.goto(${str(startUrl)});`,
+      '    const actions = new BrowserActions(page);',
+      '',
+      ...lines.map(line => `    ${line}`),
+      '  } finally {',
+      '    await browser.close();',
+      '  }',
+      '}',
+      '',
+      'run().catch(console.error);',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Save the recording to a file: `.ts` files get a script, anything else a JSON step list
+   */
+  save(filePath: string): void {
+    const content = filePath.endsWith('.ts') ? this.toScript() : this.toJSON();
+    fs.writeFileSync(filePath, content, 'utf8');
+  }
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserContext, Page } from 'playwright';
+import {
+  ActionEndEvent,
+  ActionErrorEvent,
+  AutomationEvents,
+  ExtractionRuleEvent,
+  NavigationEvent
+} from '../events/AutomationEvents';
+import { isFatalError } from '../errors/AutomationError';
+
+export interface TraceOptions {
+  dir?: string;                 // Parent directory for trace bundles (default: '.traces')
+  name?: string;                // Bundle directory name (default: run-<timestamp>)
+  screenshots?: boolean;        // Capture a screenshot when an action fails (default: true)
+  domSnapshots?: boolean;       // Capture the page HTML when an action fails (default: true)
+  playwrightTrace?: boolean;    // Also record a Playwright trace.zip for `npx playwright show-trace` (default: false)
+}
+
+export interface FailureArtifacts {
+  url: string;
+  screenshot?: string;          // Paths are relative to the bundle directory
+  dom?: string;
+}
+
+export interface TraceEntry {
+  type: 'action' | 'navigation' | 'extraction';
+  name: string;                 // Action name, navigation source or extraction rule key
+  args?: Record<string, unknown>;
+  url: string;
+  timestamp: number;
+  duration: number;
+  status: 'passed' | 'failed';
+  error?: string;
+  expected?: boolean;           // Failure the caller handled (a missing optional element); does not fail the bundle
+  artifacts?: FailureArtifacts;
+}
+
+export interface TraceBundle {
+  name: string;
+  startedAt: string;
+  finishedAt?: string;
+  duration?: number;
+  status: 'passed' | 'failed';
+  entries: TraceEntry[];
+}
+
+/**
+ * Records actions, navigations and extraction rules from an AutomationEvents bus
+ * and writes them, with failure screenshots and DOM snapshots, to one bundle
+ * directory per run:
+ *
+ *   <dir>/<name>/trace.json
+ *   <dir>/<name>/failures/001-click.png
+ *   <dir>/<name>/failures/001-click.html
+ *   <dir>/<name>/playwright-trace.zip   (with playwrightTrace)
+ */
+export class Tracer {
+  private options: Required<TraceOptions>;
+  private bundleDir: string;
+  private bundle: TraceBundle;
+  private started = 0;
+  private failureCount = 0;
+  private captured = new WeakMap<object, FailureArtifacts>();
+  private detach: (() => void) | null = null;
+  private context: BrowserContext | null = null;
+
+  constructor(options: TraceOptions = {}) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    this.options = {
+      dir: '.traces',
+      name: `run-${stamp}`,
+      screenshots: true,
+      domSnapshots: true,
+      playwrightTrace: false,
+      ...options
+    };
+    this.bundleDir = path.resolve(this.options.dir, this.options.name);
+    this.bundle = { name: this.options.name, startedAt: new Date().toISOString(), status: 'passed', entries: [] };
+  }
+
+  /**
+   * Create the bundle directory and start recording events
+   */
+  async start(events: AutomationEvents, context?: BrowserContext): Promise<void> {
+    fs.mkdirSync(path.join(this.bundleDir, 'failures'), { recursive: true });
+    this.started = Date.now();
+    this.bundle.startedAt = new Date(this.started).toISOString();
+
+    const onEnd = (event: ActionEndEvent) => {
+      this.record({ type: 'action', name: event.action, args: event.args, url: event.url, timestamp: event.timestamp, duration: event.duration, status: 'passed' });
+    };
+    const onError = (event: ActionErrorEvent) => {
+      this.record({
+        type: 'action',
+        name: event.action,
+        args: event.args,
+        url: event.url,
+        timestamp: event.timestamp,
+        duration: event.duration,
+        status: 'failed',
+        error: event.error.message,
+        expected: event.expected || undefined,
+        artifacts: this.captured.get(event.error)
+      });
+    };
+    const onNavigation = (event: NavigationEvent) => {
+      this.record({
+        type: 'navigation',
+        name: event.source,
+        url: event.url,
+        timestamp: event.timestamp,
+        duration: event.duration,
+        status: event.error ? 'failed' : 'passed',
+        error: event.error?.message,
+        artifacts: event.error ? this.captured.get(event.error) : undefined
+      });
+    };
+    const onRule = (event: ExtractionRuleEvent) => {
+      this.record({
+        type: 'extraction',
+        name: event.key,
+        args: { selector: event.selector, valueCount: event.valueCount },
+        url: event.url,
+        timestamp: Date.now() - event.duration,
+        duration: event.duration,
+        status: event.success ? 'passed' : 'failed',
+        error: event.error?.message,
+        // DataExtractor stores null for a failed rule and only rethrows fatal errors
+        expected: event.error && !isFatalError(event.error) ? true : undefined
+      });
+    };
+
+    events.on('action:end', onEnd);
+    events.on('action:error', onError);
+    events.on('navigation', onNavigation);
+    events.on('extraction:rule', onRule);
+    this.detach = () => {
+      events.off('action:end', onEnd);
+      events.off('action:error', onError);
+      events.off('navigation', onNavigation);
+      events.off('extraction:rule', onRule);
+    };
+
+    if (context && this.options.playwrightTrace) {
+      this.context = context;
+      await context.tracing.start({ screenshots: true, snapshots: true });
+    }
+  }
+
+  /**
+   * Capture the URL, a screenshot and the DOM of a page after an error. Each error
+   * is captured once, so actions built on other actions do not duplicate artifacts.
+   */
+  async captureFailure(page: Page, action: string, error: unknown): Promise<FailureArtifacts | undefined> {
+    const key = error !== null && typeof error === 'object' ? error : null;
+    if (!key) {
+      return undefined;
+    }
+    const existing = this.captured.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const prefix = `failures/${String(++this.failureCount).padStart(3, '0')}-${action.replace(/[^\w-]/g, '_')}`;
+    const artifacts: FailureArtifacts = { url: page.isClosed() ? '' : page.url() };
+    this.captured.set(key, artifacts);
+
+    if (page.isClosed()) {
+      return artifacts;
+    }
+    if (this.options.screenshots) {
+      try {
+        await page.screenshot({ path: path.join(this.bundleDir, `${prefix}.png`), fullPage: true, timeout: 5000 });
+        artifacts.screenshot = `${prefix}.png`;
+      } catch (captureError) {
+        // A crashed or navigating page cannot always be captured
+      }
+    }
+    if (this.options.domSnapshots) {
+      try {
+        fs.writeFileSync(path.join(this.bundleDir, `${prefix}.html`), await page.content(), 'utf8');
+        artifacts.dom = `${prefix}.html`;
+      } catch (captureError) {
+        // Same as above
+      }
+    }
+    return artifacts;
+  }
+
+  /**
+   * Stop recording and write the final trace.json. Returns the bundle directory.
+   */
+  async stop(): Promise<string> {
+    this.detach?.();
+    this.detach = null;
+
+    if (this.context) {
+      try {
+        await this.context.tracing.stop({ path: path.join(this.bundleDir, 'playwright-trace.zip') });
+      } catch (error) {
+        // The context may already be closed
+      }
+      this.context = null;
+    }
+
+    this.bundle.finishedAt = new Date().toISOString();
+    this.bundle.duration = Date.now() - this.started;
+    this.flush();
+    return this.bundleDir;
+  }
+
+  /**
+   * Directory this run's bundle is written to
+   */
+  getDir(): string {
+    return this.bundleDir;
+  }
+
+  /**
+   * Entries recorded so far
+   */
+  getEntries(): TraceEntry[] {
+    return this.bundle.entries;
+  }
+
+  private record(entry: TraceEntry): void {
+    this.bundle.entries.push(entry);
+    if (entry.status === 'failed' && !entry.expected) {
+      this.bundle.status = 'failed';
+      // Keep the bundle useful even if the process dies before stop()
+      this.flush();
+    }
+  }
+
+  private flush(): void {
+    fs.writeFileSync(path.join(this.bundleDir, 'trace.json'), JSON.stringify(this.bundle, null, 2), 'utf8');
+  }
+}
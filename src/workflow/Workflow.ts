@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { BrowserConfig } from '../browser/AutomationBrowser';
+
+export interface Workflow {
+  name?: string;
+  browser?: Partial<BrowserConfig>;   // Used when the runner launches its own browser
+  variables?: Record<string, any>;    // Initial variables, available as {{name}}
+  steps: WorkflowStep[];
+}
+
+/**
+ * One step of a workflow. `action` selects the operation; the other fields are
+ * the operation's arguments and may contain {{variable}} templates.
+ */
+export interface WorkflowStep {
+  action: string;
+  name?: string;              // Label shown in the result log
+  output?: string;            // Store the step's result in this variable
+  continueOnError?: boolean;  // Keep running when this step fails
+  [field: string]: any;
+}
+
+/**
+ * Conditions used by `assert` and `if` steps
+ */
+export type WorkflowCondition =
+  | { exists: string | string[] }
+  | { visible: string | string[] }
+  | { textContains: string }
+  | { urlContains: string }
+  | { equals: [any, any] }
+  | { truthy: any }
+  | { not: WorkflowCondition }
+  | { all: WorkflowCondition[] }
+  | { any: WorkflowCondition[] };
+
+type FieldType = 'string' | 'number' | 'boolean' | 'selector' | 'array' | 'object' | 'steps' | 'condition' | 'any';
+
+interface StepSchema {
+  required?: Record<string, FieldType>;
+  optional?: Record<string, FieldType>;
+}
+
+const COMMON_FIELDS: Record<string, FieldType> = {
+  action: 'string',
+  name: 'string',
+  output: 'string',
+  continueOnError: 'boolean'
+};
+
+/**
+ * Fields accepted by each action. Steps recorded by the Recorder use the same names.
+ */
+export const STEP_SCHEMAS: Record<string, StepSchema> = {
+  goto: { required: { url: 'string' }, optional: { timeout: 'number' } },
+  waitForUrl: { required: { url: 'string' }, optional: { timeout: 'number' } },
+  click: { required: { selector: 'selector' }, optional: { timeout: 'number', force: 'boolean' } },
+  doubleClick: { required: { selector: 'selector' }, optional: { timeout: 'number' } },
+  type: { required: { selector: 'selector', text: 'string' }, optional: { clear: 'boolean', delay: 'number', timeout: 'number' } },
+  press: { required: { key: 'string' } },
+  hover: { required: { selector: 'selector' }, optional: { timeout: 'number' } },
+  selectOption: { required: { selector: 'selector', value: 'any' } },
+  check: { required: { selector: 'selector' } },
+  uncheck: { required: { selector: 'selector' } },
+  scrollBy: { required: { x: 'number', y: 'number' } },
+  scrollToTop: {},
+  scrollToBottom: {},
+  scrollToElement: { required: { selector: 'selector' }, optional: { timeout: 'number' } },
+  waitForElement: { required: { selector: 'selector' }, optional: { timeout: 'number', state: 'string' } },
+  waitForText: { required: { text: 'string' }, optional: { timeout: 'number' } },
+  wait: { required: { ms: 'number' } },
+  getText: { required: { selector: 'selector' } },
+  getAttribute: { required: { selector: 'selector', attribute: 'string' } },
+  extract: { required: { rules: 'array' }, optional: { pagination: 'object', options: 'object' } },
+  screenshot: { optional: { path: 'string', fullPage: 'boolean', selector: 'selector' } },
+  assert: { required: { condition: 'condition' }, optional: { message: 'string' } },
+  set: { required: { variables: 'object' } },
+  if: { required: { condition: 'condition', then: 'steps' }, optional: { else: 'steps' } },
+  forEach: { required: { items: 'any', steps: 'steps' }, optional: { as: 'string' } },
+  repeat: { required: { times: 'number', steps: 'steps' } }
+};
+
+const CONDITION_KEYS = ['exists', 'visible', 'textContains', 'urlContains', 'equals', 'truthy', 'not', 'all', 'any'];
+
+const isTemplate = (value: unknown) => typeof value === 'string' && /\{\{.+?\}\}/.test(value);
+
+/**
+ * Check a value against a field type. Templates are accepted anywhere since
+ * their value is only known at run time.
+ */
+function checkField(value: any, type: FieldType, at: string, errors: string[]): void {
+  if (isTemplate(value) && type !== 'steps' && type !== 'condition') {
+    return;
+  }
+
+  switch (type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== type) {
+        errors.push(`${at}: expected ${type}`);
+      }
+      break;
+    case 'selector':
+      if (typeof value !== 'string' && !(Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string'))) {
+        errors.push(`${at}: expected a selector string or a non-empty list of selectors`);
+      }
+      break;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${at}: expected array`);
+      }
+      break;
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${at}: expected object`);
+      }
+      break;
+    case 'steps':
+      if (!Array.isArray(value)) {
+        errors.push(`${at}: expected a list of steps`);
+      } else {
+        validateSteps(value, at, errors);
+      }
+      break;
+    case 'condition':
+      validateCondition(value, at, errors);
+      break;
+    case 'any':
+      break;
+  }
+}
+
+function validateCondition(condition: any, at: string, errors: string[]): void {
+  if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+    errors.push(`${at}: expected a condition object`);
+    return;
+  }
+
+  const keys = Object.keys(condition);
+  if (keys.length !== 1 || !CONDITION_KEYS.includes(keys[0])) {
+    errors.push(`${at}: condition must have exactly one of ${CONDITION_KEYS.join(', ')}`);
+    return;
+  }
+
+  const [key] = keys;
+  if (key === 'not') {
+    validateCondition(condition.not, `${at}.not`, errors);
+  } else if (key === 'all' || key === 'any') {
+    if (!Array.isArray(condition[key])) {
+      errors.push(`${at}.${key}: expected a list of conditions`);
+    } else {
+      condition[key].forEach((child: any, i: number) => validateCondition(child, `${at}.${key}[${i}]`, errors));
+    }
+  } else if (key === 'equals' && (!Array.isArray(condition.equals) || condition.equals.length !== 2)) {
+    errors.push(`${at}.equals: expected a pair of values`);
+  }
+}
+
+function validateSteps(steps: any[], at: string, errors: string[]): void {
+  steps.forEach((step, i) => {
+    const stepAt = `${at}[${i}]`;
+    if (typeof step !== 'object' || step === null || Array.isArray(step)) {
+      errors.push(`${stepAt}: expected a step object`);
+      return;
+    }
+
+    const schema = STEP_SCHEMAS[step.action];
+    if (!schema) {
+      errors.push(`${stepAt}.action: unknown action "${step.action}"`);
+      return;
+    }
+
+    for (const [field, type] of Object.entries(schema.required || {})) {
+      if (step[field] === undefined) {
+        errors.push(`${stepAt}.${field}: required for "${step.action}"`);
+      } else {
+        checkField(step[field], type, `${stepAt}.${field}`, errors);
+      }
+    }
+
+    for (const [field, value] of Object.entries(step)) {
+      if (schema.required?.[field]) {
+        continue;
+      }
+      const type = schema.optional?.[field] || COMMON_FIELDS[field];
+      if (!type) {
+        errors.push(`${stepAt}.${field}: unknown field for "${step.action}"`);
+      } else {
+        checkField(value, type, `${stepAt}.${field}`, errors);
+      }
+    }
+  });
+}
+
+/**
+ * Validate a workflow against the step schemas. Returns a list of problems, empty when valid.
+ */
+export function validateWorkflow(workflow: any): string[] {
+  const errors: string[] = [];
+
+  if (typeof workflow !== 'object' || workflow === null || Array.isArray(workflow)) {
+    return ['workflow: expected an object with a "steps" list'];
+  }
+  if (workflow.name !== undefined && typeof workflow.name !== 'string') {
+    errors.push('name: expected string');
+  }
+  if (workflow.variables !== undefined) {
+    checkField(workflow.variables, 'object', 'variables', errors);
+  }
+  if (workflow.browser !== undefined) {
+    checkField(workflow.browser, 'object', 'browser', errors);
+  }
+  if (!Array.isArray(workflow.steps)) {
+    errors.push('steps: expected a list of steps');
+  } else {
+    validateSteps(workflow.steps, 'steps', errors);
+  }
+
+  return errors;
+}
+
+/**
+ * Read a workflow from a `.json`, `.yaml` or `.yml` file. A bare list of steps,
+ * such as a Recorder JSON export, is accepted as well.
+ */
+export function loadWorkflow(filePath: string): Workflow {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  const parsed = extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+
+  return Array.isArray(parsed) ? { steps: parsed } : parsed;
+}
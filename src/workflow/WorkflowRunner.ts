@@ -0,0 +1,336 @@
+import { Page } from 'playwright';
+import { AutomationBrowser } from '../browser/AutomationBrowser';
+import { BrowserActions } from '../browser/actions/BrowserActions';
+import { DataExtractor } from '../dom/DataExtractor';
+import { Workflow, WorkflowStep, WorkflowCondition, validateWorkflow, loadWorkflow } from './Workflow';
+
+export interface WorkflowRunnerOptions {
+  browser?: AutomationBrowser;        // Launched browser to run in; otherwise one is launched per run
+  page?: Page;                        // Existing page to run on
+  variables?: Record<string, any>;    // Overrides the workflow's own variables
+}
+
+export interface StepResult {
+  path: string;                       // Position of the step, e.g. "steps[3].then[0]"
+  action: string;
+  name?: string;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  output?: any;
+  error?: string;
+}
+
+export interface WorkflowResult {
+  name?: string;
+  success: boolean;
+  duration: number;
+  steps: StepResult[];
+  variables: Record<string, any>;
+}
+
+interface RunState {
+  page: Page;
+  actions: BrowserActions;
+  extractor: DataExtractor;
+  variables: Record<string, any>;
+  log: StepResult[];
+}
+
+/**
+ * Look up a dotted path such as "data.stories.0.title" in the variables
+ */
+function lookup(variables: Record<string, any>, expression: string): any {
+  return expression.trim().split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), variables as any);
+}
+
+/**
+ * Replace {{path}} templates in strings, arrays and objects. A string that is a
+ * single template keeps the referenced value's type.
+ */
+function resolveTemplates(value: any, variables: Record<string, any>): any {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{([^}]+)\}\}$/);
+    if (whole) {
+      return lookup(variables, whole[1]);
+    }
+    return value.replace(/\{\{([^}]+)\}\}/g, (_match, expression) => {
+      const resolved = lookup(variables, expression);
+      return resolved === undefined || resolved === null ? '' : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveTemplates(item, variables));
+  }
+  if (value && typeof value === 'object') {
+    const resolved: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      resolved[key] = resolveTemplates(child, variables);
+    }
+    return resolved;
+  }
+  return value;
+}
+
+/**
+ * Runs declarative workflows step by step on top of BrowserActions and DataExtractor
+ */
+export class WorkflowRunner {
+  private options: WorkflowRunnerOptions;
+
+  constructor(options: WorkflowRunnerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Validate and run a workflow object or file. Invalid workflows are rejected
+   * before any browser work starts.
+   */
+  async run(workflow: Workflow | string): Promise<WorkflowResult> {
+    const definition = typeof workflow === 'string' ? loadWorkflow(workflow) : workflow;
+
+    const errors = validateWorkflow(definition);
+    if (errors.length > 0) {
+      throw new Error(`Invalid workflow:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    const start = Date.now();
+    let browser = this.options.browser;
+    const ownsBrowser = !browser && !this.options.page;
+    let page: Page | null = this.options.page || null;
+    const variables = { ...definition.variables, ...this.options.variables };
+    const log: StepResult[] = [];
+
+    let success = true;
+    try {
+      // Launch and page creation sit inside the try so a failure still closes what was opened
+      if (ownsBrowser) {
+        browser = new AutomationBrowser({ type: 'chrome', headless: true, ...definition.browser });
+        await browser.launch();
+      }
+      page = page || await browser!.newPage();
+      const state: RunState = {
+        page,
+        actions: new BrowserActions(page),
+        extractor: new DataExtractor(page),
+        variables,
+        log
+      };
+      success = await this.runSteps(definition.steps, 'steps', state);
+    } finally {
+      if (ownsBrowser) {
+        await browser!.close();
+      } else if (!this.options.page && page) {
+        await page.close();
+      }
+    }
+
+    return {
+      name: definition.name,
+      success,
+      duration: Date.now() - start,
+      steps: log,
+      variables
+    };
+  }
+
+  /**
+   * Run a list of steps, stopping at the first failure not marked continueOnError.
+   * Returns false if the list was aborted.
+   */
+  private async runSteps(steps: WorkflowStep[], at: string, state: RunState): Promise<boolean> {
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const path = `${at}[${i}]`;
+      const start = Date.now();
+
+      try {
+        const output = await this.runStep(step, path, state);
+        if (step.output) {
+          state.variables[step.output] = output;
+        }
+        state.log.push({ path, action: step.action, name: step.name, status: 'passed', duration: Date.now() - start, output });
+      } catch (error) {
+        state.log.push({
+          path,
+          action: step.action,
+          name: step.name,
+          status: 'failed',
+          duration: Date.now() - start,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        if (!step.continueOnError) {
+          for (let j = i + 1; j < steps.length; j++) {
+            state.log.push({ path: `${at}[${j}]`, action: steps[j].action, name: steps[j].name, status: 'skipped', duration: 0 });
+          }
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Run a single step and return its output
+   */
+  private async runStep(step: WorkflowStep, path: string, state: RunState): Promise<any> {
+    const { actions, extractor, page } = state;
+
+    // Nested step lists are resolved lazily, inside each branch or iteration
+    const { then: thenSteps, else: elseSteps, steps: childSteps, ...fields } = step;
+    const args = resolveTemplates(fields, state.variables);
+
+    switch (step.action) {
+      case 'goto':
+        await actions.goto(args.url, { timeout: args.timeout });
+        return page.url();
+      case 'waitForUrl':
+        await page.waitForURL(args.url, { timeout: args.timeout });
+        return page.url();
+      case 'click':
+        await actions.click(args.selector, { timeout: args.timeout, force: args.force });
+        return actions.getLastMatch()?.selector;
+      case 'doubleClick':
+        await actions.doubleClick(args.selector, { timeout: args.timeout });
+        return undefined;
+      case 'type':
+        await actions.type(args.selector, String(args.text), { clear: args.clear, delay: args.delay, timeout: args.timeout });
+        return undefined;
+      case 'press':
+        await actions.press(args.key);
+        return undefined;
+      case 'hover':
+        await actions.hover(args.selector, { timeout: args.timeout });
+        return undefined;
+      case 'selectOption':
+        await actions.selectOption(args.selector, args.value);
+        return undefined;
+      case 'check':
+        await actions.check(args.selector);
+        return undefined;
+      case 'uncheck':
+        await actions.uncheck(args.selector);
+        return undefined;
+      case 'scrollBy':
+        await actions.scrollBy(Number(args.x), Number(args.y));
+        return undefined;
+      case 'scrollToTop':
+        await actions.scrollToTop();
+        return undefined;
+      case 'scrollToBottom':
+        await actions.scrollToBottom();
+        return undefined;
+      case 'scrollToElement':
+        await actions.scrollToElement(args.selector, { timeout: args.timeout });
+        return undefined;
+      case 'waitForElement':
+        return (await actions.waitForElement(args.selector, { timeout: args.timeout, state: args.state })).selector;
+      case 'waitForText':
+        await actions.waitForText(args.text, { timeout: args.timeout });
+        return undefined;
+      case 'wait':
+        await actions.wait(Number(args.ms));
+        return undefined;
+      case 'getText':
+        return await actions.getText(args.selector);
+      case 'getAttribute':
+        return await actions.getAttribute(args.selector, args.attribute);
+      case 'extract':
+        return args.pagination
+          ? await extractor.extractPaginated(args.rules, args.pagination, args.options)
+          : await extractor.extractData(args.rules, args.options);
+      case 'screenshot':
+        if (args.selector) {
+          await actions.screenshotElement(args.selector, { path: args.path });
+        } else {
+          await actions.screenshot({ path: args.path, fullPage: args.fullPage });
+        }
+        return args.path;
+      case 'assert':
+        if (!(await this.evaluateCondition(args.condition, state))) {
+          throw new Error(args.message || `Assertion failed: ${JSON.stringify(args.condition)}`);
+        }
+        return true;
+      case 'set':
+        Object.assign(state.variables, args.variables);
+        return args.variables;
+      case 'if': {
+        const matched = await this.evaluateCondition(args.condition, state);
+        const branch = matched ? thenSteps : elseSteps;
+        if (branch && !(await this.runSteps(branch, `${path}.${matched ? 'then' : 'else'}`, state))) {
+          throw new Error(`Step failed inside "${matched ? 'then' : 'else'}" branch`);
+        }
+        return matched;
+      }
+      case 'forEach': {
+        if (!Array.isArray(args.items)) {
+          throw new Error('forEach items did not resolve to a list');
+        }
+        const name = args.as || 'item';
+        for (let i = 0; i < args.items.length; i++) {
+          state.variables[name] = args.items[i];
+          state.variables.index = i;
+          if (!(await this.runSteps(childSteps, `${path}.steps#${i}`, state))) {
+            throw new Error(`Step failed in iteration ${i}`);
+          }
+        }
+        return args.items.length;
+      }
+      case 'repeat': {
+        const times = Number(args.times);
+        for (let i = 0; i < times; i++) {
+          state.variables.index = i;
+          if (!(await this.runSteps(childSteps, `${path}.steps#${i}`, state))) {
+            throw new Error(`Step failed in iteration ${i}`);
+          }
+        }
+        return times;
+      }
+      default:
+        throw new Error(`Unknown action "${step.action}"`);
+    }
+  }
+
+  /**
+   * Evaluate an `assert`/`if` condition against the current page and variables
+   */
+  private async evaluateCondition(condition: WorkflowCondition, state: RunState): Promise<boolean> {
+    if ('not' in condition) {
+      return !(await this.evaluateCondition(condition.not, state));
+    }
+    if ('all' in condition) {
+      for (const child of condition.all) {
+        if (!(await this.evaluateCondition(child, state))) {
+          return false;
+        }
+      }
+      return true;
+    }
+    if ('any' in condition) {
+      for (const child of condition.any) {
+        if (await this.evaluateCondition(child, state)) {
+          return true;
+        }
+      }
+      return false;
+    }
+    if ('exists' in condition) {
+      return (await state.actions.getElementCount(condition.exists)) > 0;
+    }
+    if ('visible' in condition) {
+      return await state.actions.isVisible(condition.visible);
+    }
+    if ('textContains' in condition) {
+      return await state.actions.executeScript(
+        (text: string) => document.body.innerText.includes(text),
+        condition.textContains
+      );
+    }
+    if ('urlContains' in condition) {
+      return state.page.url().includes(condition.urlContains);
+    }
+    if ('equals' in condition) {
+      return JSON.stringify(condition.equals[0]) === JSON.stringify(condition.equals[1]);
+    }
+    return Boolean(condition.truthy);
+  }
+}
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DomNode } from '../src/dom/DomExtractor';
+import { diffDomTrees, nodeAtPath, pathSegment } from '../src/dom/DomDiff';
+
+function el(tagName: string, attributes: Record<string, string> = {}, children: DomNode[] = []): DomNode {
+  return { tagName, attributes, children, depth: 0 };
+}
+
+function text(textContent: string): DomNode {
+  return { tagName: '#text', attributes: {}, textContent, children: [], depth: 0 };
+}
+
+test('pathSegment counts earlier siblings with the same tag', () => {
+  const siblings = [el('div'), el('p'), el('div')];
+  assert.equal(pathSegment(siblings, 0), 'div[1]');
+  assert.equal(pathSegment(siblings, 1), 'p[1]');
+  assert.equal(pathSegment(siblings, 2), 'div[2]');
+});
+
+test('nodeAtPath follows paths and returns null for missing nodes', () => {
+  const target = el('span');
+  const root = el('html', {}, [el('body', {}, [el('div'), el('div', {}, [target])])]);
+  assert.equal(nodeAtPath(root, 'html[1]/body[1]/div[2]/span[1]'), target);
+  assert.equal(nodeAtPath(root, 'html[1]/body[1]/div[3]'), null);
+  assert.equal(nodeAtPath(root, 'body[1]'), null);
+});
+
+test('diffDomTrees returns nothing for identical trees', () => {
+  const tree = () => el('body', {}, [el('p', {}, [text('hello')])]);
+  assert.deepEqual(diffDomTrees(tree(), tree()), []);
+});
+
+test('diffDomTrees reports attribute and text changes', () => {
+  const before = el('body', {}, [el('p', { class: 'a', title: 'x' }, [text('old')])]);
+  const after = el('body', {}, [el('p', { class: 'b', role: 'note' }, [text('new')])]);
+  assert.deepEqual(diffDomTrees(before, after), [
+    { type: 'attribute-changed', path: 'body[1]/p[1]', attribute: 'class', oldValue: 'a', newValue: 'b' },
+    { type: 'attribute-changed', path: 'body[1]/p[1]', attribute: 'title', oldValue: 'x', newValue: null },
+    { type: 'attribute-changed', path: 'body[1]/p[1]', attribute: 'role', oldValue: null, newValue: 'note' },
+    { type: 'text-changed', path: 'body[1]/p[1]/#text[1]', oldText: 'old', newText: 'new' }
+  ]);
+});
+
+test('diffDomTrees reports added and removed children', () => {
+  const kept = () => el('p', { id: 'kept' });
+  const removed = el('span', { id: 'gone' });
+  const added = el('em', { id: 'fresh' });
+  const changes = diffDomTrees(el('body', {}, [kept(), removed]), el('body', {}, [kept(), added]));
+  assert.deepEqual(changes, [
+    { type: 'removed', path: 'body[1]/span[1]', node: removed },
+    { type: 'added', path: 'body[1]/em[1]', node: added }
+  ]);
+});
+
+test('diffDomTrees reports reordered siblings as a move', () => {
+  const a = () => el('li', { id: 'a' });
+  const b = () => el('li', { id: 'b' });
+  const c = () => el('li', { id: 'c' });
+  const changes = diffDomTrees(el('ul', {}, [a(), b(), c()]), el('ul', {}, [c(), a(), b()]));
+  assert.deepEqual(changes, [{ type: 'moved', path: 'ul[1]/li[1]', from: 'ul[1]/li[3]', node: c() }]);
+});
+
+test('diffDomTrees turns a subtree moved between parents into one move', () => {
+  const card = () => el('article', { class: 'card' }, [text('Card')]);
+  const before = el('body', {}, [el('section', { id: 'left' }, [card()]), el('section', { id: 'right' })]);
+  const after = el('body', {}, [el('section', { id: 'left' }), el('section', { id: 'right' }, [card()])]);
+  assert.deepEqual(diffDomTrees(before, after), [
+    { type: 'moved', path: 'body[1]/section[2]/article[1]', from: 'body[1]/section[1]/article[1]', node: card() }
+  ]);
+});
+
+test('diffDomTrees replaces the root when its tag changes', () => {
+  const before = el('div');
+  const after = el('main');
+  assert.deepEqual(diffDomTrees(before, after), [
+    { type: 'removed', path: 'div[1]', node: before },
+    { type: 'added', path: 'main[1]', node: after }
+  ]);
+});
@@ -0,0 +1,103 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { exportData, flattenRecord, formatForPath, toCsv, toMarkdown, toNdjson, toRows, writeExport } from '../src/export/Exporters';
+
+const metadata = { url: 'https://example.com', title: 'Example', timestamp: '2024-01-01T00:00:00.000Z', extractionRules: [] };
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exporters-'));
+let files = 0;
+
+function tempFile(name: string): string {
+  return path.join(dir, `${files++}-${name}`);
+}
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test('formatForPath picks the format from the extension', () => {
+  assert.equal(formatForPath('out.CSV'), 'csv');
+  assert.equal(formatForPath('out.jsonl'), 'ndjson');
+  assert.equal(formatForPath('out.md'), 'markdown');
+  assert.equal(formatForPath('out.txt'), 'json');
+});
+
+test('flattenRecord joins plain arrays and indexes arrays of objects', () => {
+  const flat = flattenRecord({
+    author: { name: 'Ada', links: { home: '/ada' } },
+    tags: ['x', null, 'y'],
+    comments: [{ by: 'a' }, { by: 'b' }],
+    score: undefined
+  });
+  assert.deepEqual(flat, {
+    'author.name': 'Ada',
+    'author.links.home': '/ada',
+    tags: 'x; y',
+    'comments.0.by': 'a',
+    'comments.1.by': 'b',
+    score: null
+  });
+  assert.deepEqual(flattenRecord({ a: { b: [1, 2] } }, { separator: '_', arraySeparator: '|' }), { a_b: '1|2' });
+});
+
+test('toRows expands the first array of objects in a single record', () => {
+  const data = { _metadata: metadata, heading: 'Shop', items: [{ name: 'a', price: 1 }, { name: 'b', price: 2 }] };
+  assert.deepEqual(toRows(data), [{ name: 'a', price: 1 }, { name: 'b', price: 2 }]);
+  assert.deepEqual(toRows(data, { rows: 'record' }), [
+    { heading: 'Shop', 'items.0.name': 'a', 'items.0.price': 1, 'items.1.name': 'b', 'items.1.price': 2 }
+  ]);
+  assert.deepEqual(toRows([{ tags: ['x'] }, { tags: ['y', 'z'] }], { rows: 'tags' }), [{ tags: 'x' }, { tags: 'y' }, { tags: 'z' }]);
+});
+
+test('toCsv quotes cells and honours column order and headers', () => {
+  const data = [{ name: 'a, b', note: 'say "hi"' }, { name: 'c', note: null }];
+  assert.equal(toCsv(data), 'name,note\n"a, b","say ""hi"""\nc,');
+  assert.equal(toCsv(data, { columns: ['note', { key: 'name', header: 'Name' }] }), 'note,Name\n"say ""hi""","a, b"\n,c');
+  assert.equal(toCsv(data, { delimiter: ';' }, false), '"a, b";"say ""hi"""\nc;');
+});
+
+test('toMarkdown escapes pipes and line breaks', () => {
+  assert.equal(toMarkdown([{ a: 'x|y', b: 'one\ntwo' }]), '| a | b |\n| --- | --- |\n| x\\|y | one<br>two |');
+});
+
+test('toNdjson writes one record per line without metadata', () => {
+  const data = [{ _metadata: metadata, a: 1 }, { a: 2, nested: { b: true } }];
+  assert.equal(toNdjson(data), '{"a":1}\n{"a":2,"nested":{"b":true}}');
+  assert.equal(toNdjson(data, { columns: [{ key: 'nested.b', header: 'b' }] }), '{"b":null}\n{"b":true}');
+});
+
+test('exportData keeps metadata in JSON unless asked not to', () => {
+  const data = { _metadata: metadata, a: 1 };
+  assert.deepEqual(JSON.parse(exportData(data)), data);
+  assert.equal(exportData(data, { includeMetadata: false, pretty: false }), '{"a":1}');
+});
+
+test('writeExport appends CSV rows by key under the existing header', () => {
+  const file = tempFile('out.csv');
+  writeExport([{ a: 1, b: 2 }], file);
+  writeExport([{ b: 4, a: 3 }, { a: 5 }], file, { append: true });
+  assert.equal(fs.readFileSync(file, 'utf8'), 'a,b\n1,2\n3,4\n5,\n');
+});
+
+test('writeExport refuses appends that would drop keys or change the header', () => {
+  const file = tempFile('out.csv');
+  writeExport([{ a: 1, b: 2 }], file);
+  assert.throws(() => writeExport([{ a: 3, c: 4 }], file, { append: true }), /has no column for c/);
+  assert.throws(() => writeExport([{ a: 3 }], file, { append: true, columns: ['a'] }), /do not match its header/);
+
+  writeExport([{ b: 4, a: 3, c: 5 }], file, { append: true, columns: ['a', 'b'] });
+  assert.equal(fs.readFileSync(file, 'utf8'), 'a,b\n1,2\n3,4\n');
+});
+
+test('writeExport appends Markdown rows and extends JSON arrays', () => {
+  const markdown = tempFile('out.md');
+  writeExport([{ 'a|b': 1 }], markdown);
+  writeExport([{ 'a|b': 2 }], markdown, { append: true });
+  assert.equal(fs.readFileSync(markdown, 'utf8'), '| a\\|b |\n| --- |\n| 1 |\n| 2 |\n');
+
+  const json = tempFile('out.json');
+  writeExport({ a: 1 }, json);
+  writeExport([{ a: 2 }], json, { append: true });
+  assert.deepEqual(JSON.parse(fs.readFileSync(json, 'utf8')), [{ a: 1 }, { a: 2 }]);
+});
@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { defineSchema, field, hasValidation, validateExtraction } from '../src/dom/ExtractionSchema';
+import { resolveTransform } from '../src/dom/ValueTransforms';
+
+const context = { url: 'https://example.com/' };
+
+test('defineSchema turns fields into extraction rules', () => {
+  const schema = defineSchema({
+    title: field.text('h1').required(),
+    link: field.attr('a', 'href'),
+    tags: field.text('.tag').multiple().count({ min: 1 }),
+    author: field.group('.author', { name: field.text('.name').required() })
+  });
+  assert.deepEqual(schema.rules, [
+    { key: 'title', selector: 'h1', required: true },
+    { key: 'link', selector: 'a', attribute: 'href' },
+    { key: 'tags', selector: '.tag', multiple: true, skipEmpty: true, minCount: 1, maxCount: undefined },
+    { key: 'author', selector: '.author', fields: [{ key: 'name', selector: '.name', required: true }] }
+  ]);
+});
+
+test('SchemaField methods return new fields', () => {
+  const base = field.text('h1');
+  const required = base.required();
+  assert.notEqual(base, required);
+  assert.deepEqual(base.rule, { selector: 'h1' });
+  assert.equal(required.shape, 'required');
+  assert.equal(base.multiple().required().shape, 'list');
+});
+
+test('transforms and use() append steps in order', () => {
+  const rule = field.text('.price').transform(value => value.trim()).use('price', { locale: 'de-DE' }).rule;
+  assert.ok(Array.isArray(rule.transform));
+  assert.deepEqual(rule.transform[1], { name: 'price', locale: 'de-DE' });
+  assert.deepEqual(resolveTransform(rule.transform)('  1.299,50 € ', context), { amount: 1299.5, currency: 'EUR' });
+});
+
+test('number() parses text and reports values without a number', () => {
+  const rule = field.text('.price').number().rule;
+  assert.equal(resolveTransform(rule.transform!)('$1,299.50', context), 1299.5);
+  assert.ok(Number.isNaN(resolveTransform(rule.transform!)('n/a', context)));
+  assert.equal(rule.validate!(NaN), 'Not a number');
+  assert.equal(rule.validate!(3), true);
+});
+
+test('validate() chains checks and uses the message for false', () => {
+  const rule = field.text('h1')
+    .validate(value => value.length > 0 || 'Empty')
+    .validate(value => value === value.trim(), 'Untrimmed')
+    .rule;
+  assert.equal(rule.validate!(''), 'Empty');
+  assert.equal(rule.validate!(' a'), 'Untrimmed');
+  assert.equal(rule.validate!('a'), true);
+});
+
+test('hasValidation looks into nested fields', () => {
+  assert.equal(hasValidation([{ key: 'a', selector: 'a' }]), false);
+  assert.equal(hasValidation([{ key: 'a', selector: 'a', fields: [{ key: 'b', selector: 'b', pattern: /x/ }] }]), true);
+  assert.equal(hasValidation(defineSchema({ tags: field.text('.tag').multiple().count({ max: 3 }) }).rules), true);
+});
+
+test('validateExtraction passes data that meets every check', () => {
+  const { rules } = defineSchema({
+    title: field.text('h1').required(),
+    tags: field.text('.tag').multiple().count({ min: 1, max: 2 }).match(/^[a-z]+$/)
+  });
+  const report = validateExtraction(rules, { title: 'Hello', tags: ['news', 'tech'] });
+  assert.equal(report.valid, true);
+  assert.deepEqual(report.issues, []);
+  assert.deepEqual(report.fields.tags, { valid: true, valueCount: 2, issues: [] });
+});
+
+test('validateExtraction reports each failed check with its path', () => {
+  const { rules } = defineSchema({
+    title: field.text('h1').required(),
+    price: field.text('.price').validate(value => value !== '0', 'Free'),
+    tags: field.text('.tag').multiple().count({ max: 1 }).match('^[a-z]+$'),
+    stories: field.group('.story', { title: field.text('a').required() }).multiple().count({ min: 3 })
+  });
+  const report = validateExtraction(rules, {
+    title: '',
+    price: '0',
+    tags: ['news', 'Tech', null],
+    stories: [{ title: 'First' }, { title: null }]
+  });
+
+  assert.equal(report.valid, false);
+  assert.deepEqual(report.issues, [
+    { path: 'title', check: 'required', message: 'No value found' },
+    { path: 'price', check: 'custom', message: 'Free' },
+    { path: 'tags', check: 'maxCount', message: 'Found 2 values, expected at most 1' },
+    { path: 'tags[1]', check: 'pattern', message: '"Tech" does not match /^[a-z]+$/' },
+    { path: 'stories', check: 'minCount', message: 'Found 2 values, expected at least 3' },
+    { path: 'stories[1].title', check: 'required', message: 'No value found' }
+  ]);
+  assert.equal(report.fields.tags.valueCount, 2);
+  assert.equal(report.fields.stories.valid, false);
+});
+
+test('validateExtraction reports rules that failed outright', () => {
+  const { rules } = defineSchema({ title: field.text('h1').required() });
+  const report = validateExtraction(rules, { title: null }, { title: 'Selector timed out' });
+  assert.deepEqual(report.fields.title, {
+    valid: false,
+    valueCount: 0,
+    issues: [{ path: 'title', check: 'error', message: 'Selector timed out' }]
+  });
+});
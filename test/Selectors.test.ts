@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DomNode } from '../src/dom/DomExtractor';
+import { selectorFor, xpathFor } from '../src/dom/Selectors';
+
+function el(tagName: string, attributes: Record<string, string> = {}, children: DomNode[] = []): DomNode {
+  return { tagName, attributes, children, depth: 0 };
+}
+
+// html > body > [div#main > [button[name=go], button], div > [span, span[data-testid=x]]]
+function page() {
+  const named = el('button', { name: 'go' });
+  const plain = el('button');
+  const firstSpan = el('span', { 'data-testid': 'x' });
+  const secondSpan = el('span', { 'data-testid': 'x' });
+  const main = el('div', { id: 'main' }, [named, plain]);
+  const root = el('html', {}, [el('body', {}, [main, el('div', {}, [firstSpan, secondSpan])])]);
+  return { root, main, named, plain, firstSpan, secondSpan };
+}
+
+test('selectorFor returns the selector generated in the page', () => {
+  assert.equal(selectorFor({ ...el('div', { id: 'main' }), selector: 'div.card' }), 'div.card');
+});
+
+test('selectorFor prefers unique ids and stable attributes', () => {
+  const { root, main, named } = page();
+  assert.equal(selectorFor(main, root), '#main');
+  assert.equal(selectorFor(named, root), 'button[name="go"]');
+});
+
+test('selectorFor escapes ids and quotes attribute values', () => {
+  assert.equal(selectorFor(el('div', { id: 'a.b' })), '#a\\.b');
+  assert.equal(selectorFor(el('div', { id: '1st' })), '#\\31 st');
+  assert.equal(selectorFor(el('input', { name: 'say "hi" \\' })), 'input[name="say \\"hi\\" \\\\"]');
+});
+
+test('selectorFor falls back to an nth-of-type chain when attributes repeat', () => {
+  const { root, plain, firstSpan } = page();
+  assert.equal(selectorFor(plain, root), '#main > button:nth-of-type(2)');
+  assert.equal(selectorFor(firstSpan, root), 'html > body > div:nth-of-type(2) > span:nth-of-type(1)');
+});
+
+test('selectorFor uses the first stable attribute without a root', () => {
+  assert.equal(selectorFor(el('span', { 'data-testid': 'x' })), 'span[data-testid="x"]');
+  assert.equal(selectorFor(el('span')), 'span');
+});
+
+test('selectorFor stops at a shadow root', () => {
+  const button = el('button');
+  const root = el('div', { id: 'host' }, [el('#shadow-root', {}, [button])]);
+  assert.equal(selectorFor(button, root), 'button');
+});
+
+test('xpathFor prefers unique ids and stable attributes', () => {
+  const { root, main, named } = page();
+  assert.equal(xpathFor(main, root), '//*[@id="main"]');
+  assert.equal(xpathFor(named, root), '//button[@name="go"]');
+  assert.equal(xpathFor({ ...main, xpath: '//div[1]' }, root), '//div[1]');
+});
+
+test('xpathFor falls back to a positional path', () => {
+  const { root, firstSpan, secondSpan } = page();
+  assert.equal(xpathFor(firstSpan, root), '/html[1]/body[1]/div[2]/span[1]');
+  assert.equal(xpathFor(secondSpan, root), '/html[1]/body[1]/div[2]/span[2]');
+  assert.equal(xpathFor(el('span')), '//span');
+});
+
+test('xpathFor picks a quote kind the value lacks and uses concat() for both', () => {
+  assert.equal(xpathFor(el('input', { name: 'say "hi"' })), `//input[@name='say "hi"']`);
+  assert.equal(xpathFor(el('input', { name: "it's" })), `//input[@name="it's"]`);
+  assert.equal(xpathFor(el('input', { name: `it's "x"` })), `//input[@name=concat('it', "'", 's "x"')]`);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Page } from 'playwright';
+import { extractStructuredData } from '../src/dom/StructuredData';
+
+// Stands in for a page: evaluate() resolves to what collectStructuredData would return
+function fakePage(raw: { jsonLd: string[]; items: any[] }, calls: any[] = []): Page {
+  return {
+    evaluate: async (_fn: unknown, arg: unknown) => {
+      calls.push(arg);
+      return raw;
+    }
+  } as unknown as Page;
+}
+
+test('extractStructuredData normalizes JSON-LD blocks and unwraps @graph', async () => {
+  const page = fakePage({
+    jsonLd: [
+      '<!-- {"@context": "https://schema.org", "@type": "Product", "name": "Tea", "offers": {"@type": "Offer", "price": "3.50"}} -->',
+      '{"@graph": [{"@type": "schema:Organization", "@id": "#org", "schema:name": "Acme"}, {"@type": ["Article", "NewsArticle"], "headline": "Hi"}]}',
+      '[{"@type": "Person", "name": "Ada"}, "not an item"]'
+    ],
+    items: []
+  });
+  const data = await extractStructuredData(page);
+
+  assert.deepEqual(data.items, [
+    { '@type': 'Product', name: 'Tea', offers: { '@type': 'Offer', price: '3.50' }, '@source': 'json-ld' },
+    { '@type': 'Organization', '@id': '#org', name: 'Acme', '@source': 'json-ld' },
+    { '@type': ['Article', 'NewsArticle'], headline: 'Hi', '@source': 'json-ld' },
+    { '@type': 'Person', name: 'Ada', '@source': 'json-ld' }
+  ]);
+  assert.deepEqual(Object.keys(data.types), ['Product', 'Organization', 'Article', 'NewsArticle', 'Person']);
+  assert.equal(data.types.Article[0], data.types.NewsArticle[0]);
+  assert.deepEqual(data.errors, []);
+});
+
+test('extractStructuredData reports JSON-LD blocks that do not parse', async () => {
+  const data = await extractStructuredData(fakePage({ jsonLd: ['{"@type": "Product"}', '{not json'], items: [] }));
+  assert.equal(data.items.length, 1);
+  assert.equal(data.errors.length, 1);
+  assert.match(data.errors[0], /^JSON-LD block 2: /);
+});
+
+test('extractStructuredData shapes microdata and RDFa items like JSON-LD', async () => {
+  const offer = { source: 'microdata', types: ['https://schema.org/Offer'], id: null, properties: [['price', '9']] };
+  const data = await extractStructuredData(fakePage({
+    jsonLd: [],
+    items: [
+      {
+        source: 'microdata',
+        types: ['https://schema.org/Product'],
+        id: null,
+        properties: [['name', 'Mug'], ['color', 'red'], ['color', 'blue'], ['offers', offer]]
+      },
+      { source: 'rdfa', types: [], id: 'https://example.com/#thing', properties: [['schema:name', 'Thing one']] }
+    ]
+  }));
+
+  assert.deepEqual(data.items, [
+    { '@type': 'Product', name: 'Mug', color: ['red', 'blue'], offers: { '@type': 'Offer', price: '9' }, '@source': 'microdata' },
+    { '@type': [], '@id': 'https://example.com/#thing', name: 'Thing one', '@source': 'rdfa' }
+  ]);
+  assert.deepEqual(data.types.Product, [data.items[0]]);
+  assert.deepEqual(data.types.Thing, [data.items[1]]);
+  assert.equal(data.types.Offer, undefined);
+});
+
+test('extractStructuredData passes the requested sources to the page', async () => {
+  const calls: any[] = [];
+  await extractStructuredData(fakePage({ jsonLd: [], items: [] }, calls));
+  await extractStructuredData(fakePage({ jsonLd: [], items: [] }, calls), { sources: ['json-ld'] });
+  assert.deepEqual(calls, [['json-ld', 'microdata', 'rdfa'], ['json-ld']]);
+});
@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RawTable, RawTableCell, RawTableRow, TableSection, parseTable } from '../src/dom/TableParser';
+
+function td(text: string, span: Partial<Pick<RawTableCell, 'colspan' | 'rowspan'>> = {}): RawTableCell {
+  return { text, header: false, colspan: 1, rowspan: 1, ...span };
+}
+
+function th(text: string, span: Partial<Pick<RawTableCell, 'colspan' | 'rowspan'>> = {}): RawTableCell {
+  return { ...td(text, span), header: true };
+}
+
+function row(section: TableSection, group: number, cells: RawTableCell[]): RawTableRow {
+  return { section, group, cells };
+}
+
+function table(rows: RawTableRow[]): RawTable {
+  return { index: 0, caption: null, parent: null, rows };
+}
+
+test('parseTable infers column types from every body value', () => {
+  const parsed = parseTable(table([
+    row('thead', 0, [th('Name'), th('Price'), th('In stock'), th('Released'), th('ZIP'), th('Version')]),
+    row('tbody', 1, [td('Widget'), td('$1,299.00'), td('Yes'), td('2024-03-05'), td('02139'), td('1.2.3')]),
+    row('tbody', 1, [td('Gadget'), td('5'), td('no'), td('2023-12-01'), td('10001'), td('2.0')])
+  ]));
+
+  assert.deepEqual(parsed.columnTypes, {
+    Name: 'string', Price: 'number', 'In stock': 'boolean', Released: 'date', ZIP: 'string', Version: 'string'
+  });
+  assert.deepEqual(parsed.records, [
+    { Name: 'Widget', Price: 1299, 'In stock': true, Released: '2024-03-05', ZIP: '02139', Version: '1.2.3' },
+    { Name: 'Gadget', Price: 5, 'In stock': false, Released: '2023-12-01', ZIP: '10001', Version: '2.0' }
+  ]);
+});
+
+test('parseTable reads numeric dates as dates, not numbers', () => {
+  const parsed = parseTable(table([
+    row('thead', 0, [th('Day')]),
+    row('tbody', 1, [td('05.03.2024')]),
+    row('tbody', 1, [td('')])
+  ]));
+  assert.equal(parsed.columnTypes.Day, 'date');
+  assert.deepEqual(parsed.records, [{ Day: '2024-03-05' }]);
+});
+
+test('parseTable leaves every column as text with types off', () => {
+  const parsed = parseTable(table([row('thead', 0, [th('Count')]), row('tbody', 1, [td('3')])]), { types: false });
+  assert.deepEqual(parsed.columnTypes, { Count: 'string' });
+  assert.deepEqual(parsed.records, [{ Count: '3' }]);
+});
+
+test('parseTable joins stacked headers across colspans and rowspans', () => {
+  const parsed = parseTable(table([
+    row('thead', 0, [th('Region', { rowspan: 2 }), th('Q1', { colspan: 2 })]),
+    row('thead', 0, [th('Revenue'), th('Units')]),
+    row('tbody', 1, [td('North'), td('10'), td('2')])
+  ]), { headerSeparator: ' > ' });
+
+  assert.deepEqual(parsed.columns, ['Region', 'Q1 > Revenue', 'Q1 > Units']);
+  assert.deepEqual(parsed.headerGrid, [['Region', 'Q1', 'Q1'], ['Region', 'Revenue', 'Units']]);
+  assert.deepEqual(parsed.records, [{ Region: 'North', 'Q1 > Revenue': 10, 'Q1 > Units': 2 }]);
+});
+
+test('parseTable expands rowspans within their row group', () => {
+  const parsed = parseTable(table([
+    row('thead', 0, [th('Team'), th('Player')]),
+    row('tbody', 1, [td('Red', { rowspan: 3 }), td('Ann')]),
+    row('tbody', 1, [td('Bob')]),
+    row('tbody', 2, [td('Blue', { rowspan: 0 }), td('Cy')]),
+    row('tbody', 2, [td('Di')])
+  ]));
+  assert.deepEqual(parsed.bodyGrid, [['Red', 'Ann'], ['Red', 'Bob'], ['Blue', 'Cy'], ['Blue', 'Di']]);
+});
+
+test('parseTable pads short rows and drops empty ones', () => {
+  const parsed = parseTable(table([
+    row('thead', 0, [th('A'), th('B')]),
+    row('tbody', 1, [td('x')]),
+    row('tbody', 1, [td(''), td('')])
+  ]));
+  assert.deepEqual(parsed.bodyGrid, [['x', '']]);
+  assert.deepEqual(parsed.records, [{ A: 'x', B: null }]);
+});
+
+test('parseTable treats leading rows of <th> as headers and finds row headers', () => {
+  const parsed = parseTable(table([
+    row('tbody', 0, [th(''), th('Score'), th('Score')]),
+    row('tbody', 0, [th('Alpha'), td('1'), td('4')]),
+    row('tbody', 0, [th('Beta'), td('2'), td('5')])
+  ]));
+  assert.deepEqual(parsed.columns, ['Column 1', 'Score', 'Score (2)']);
+  assert.deepEqual(parsed.rowHeaders, ['Alpha', 'Beta']);
+  assert.deepEqual(parsed.records[1], { 'Column 1': 'Beta', Score: 2, 'Score (2)': 5 });
+});
+
+test('parseTable honours headerRows and names columns without headers', () => {
+  const rows = [row('tbody', 0, [td('a'), td('b')]), row('tbody', 0, [td('1'), td('2')])];
+  assert.deepEqual(parseTable(table(rows), { headerRows: 1 }).records, [{ a: 1, b: 2 }]);
+
+  const headless = parseTable(table(rows), { headerRows: 0 });
+  assert.deepEqual(headless.columns, ['Column 1', 'Column 2']);
+  assert.equal(headless.records.length, 2);
+  assert.equal(headless.rowHeaders, null);
+});
+
+test('parseTable keeps footer text that does not fit the column type', () => {
+  const parsed = parseTable(table([
+    row('thead', 0, [th('Item'), th('Amount')]),
+    row('tbody', 1, [td('Tea'), td('3')]),
+    row('tfoot', 2, [td('Total'), td('3')]),
+    row('tfoot', 2, [td('Note'), td('n/a')])
+  ]));
+  assert.deepEqual(parsed.records, [{ Item: 'Tea', Amount: 3 }]);
+  assert.deepEqual(parsed.footer, [{ Item: 'Total', Amount: 3 }, { Item: 'Note', Amount: 'n/a' }]);
+});
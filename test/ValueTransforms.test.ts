@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDate, parseNumber, parsePrice, registerTransform, resolveTransform } from '../src/dom/ValueTransforms';
+
+const context = { url: 'https://example.com/shop/' };
+const apply = (step: Parameters<typeof resolveTransform>[0], value: any) => resolveTransform(step)(value, context);
+
+// Times are parsed as local time, so expectations are built the same way
+const at = (...parts: [number, number, number, number, number]) =>
+  new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4]).toISOString();
+
+test('parseNumber guesses decimal and thousands separators', () => {
+  assert.equal(parseNumber('1,299.50 items'), 1299.5);
+  assert.equal(parseNumber('1.299,50 €'), 1299.5);
+  assert.equal(parseNumber('1,299'), 1299);
+  assert.equal(parseNumber('3,5'), 3.5);
+  assert.equal(parseNumber('1.234.567'), 1234567);
+  assert.equal(parseNumber('1 234 567'), 1234567);
+  assert.equal(parseNumber('−4.5'), -4.5);
+  assert.equal(parseNumber('Total: 42.'), 42);
+  assert.equal(parseNumber('no digits'), null);
+});
+
+test('parseNumber uses the locale decimal separator', () => {
+  assert.equal(parseNumber('1.299', 'de-DE'), 1299);
+  assert.equal(parseNumber('1,5', 'de-DE'), 1.5);
+  assert.equal(parseNumber('1,5', 'en-US'), 15);
+});
+
+test('parseNumber rejects separator runs that do not group thousands', () => {
+  assert.equal(parseNumber('2.0.1'), null);
+  assert.equal(parseNumber('1 2 3'), null);
+  assert.equal(parseNumber('12.34.56'), null);
+  assert.equal(parseNumber('1.234,56.7'), null);
+});
+
+test('parsePrice finds the currency from codes, symbols or the default', () => {
+  assert.deepEqual(parsePrice('US$ 19.99'), { amount: 19.99, currency: 'USD' });
+  assert.deepEqual(parsePrice('1.299,00 €'), { amount: 1299, currency: 'EUR' });
+  assert.deepEqual(parsePrice('CHF 12'), { amount: 12, currency: 'CHF' });
+  assert.deepEqual(parsePrice('12.50', { currency: 'GBP' }), { amount: 12.5, currency: 'GBP' });
+  assert.deepEqual(parsePrice('12.50'), { amount: 12.5, currency: null });
+  assert.equal(parsePrice('Free'), null);
+});
+
+test('parseDate reads ISO, English and numeric dates', () => {
+  assert.equal(parseDate('2024-03-05'), '2024-03-05');
+  assert.equal(parseDate('2024-03-05T10:00:00Z'), '2024-03-05T10:00:00.000Z');
+  assert.equal(parseDate('March 5th, 2024'), '2024-03-05');
+  assert.equal(parseDate('Sept. 30 2024'), '2024-09-30');
+  assert.equal(parseDate('2024/3/5'), '2024-03-05');
+  assert.equal(parseDate('3/5/2024'), '2024-03-05');
+  assert.equal(parseDate('5.3.2024'), '2024-03-05');
+  assert.equal(parseDate('5/3/24', { dayFirst: true }), '2024-03-05');
+  assert.equal(parseDate('05/03/2024', { locale: 'en-GB' }), '2024-03-05');
+});
+
+test('parseDate keeps times as local time', () => {
+  assert.equal(parseDate('Mar 5, 2024 3:45 PM'), at(2024, 3, 5, 15, 45));
+  assert.equal(parseDate('2024-03-05 14:30'), at(2024, 3, 5, 14, 30));
+  assert.equal(parseDate('05.03.2024, 12:05 am'), at(2024, 3, 5, 0, 5));
+});
+
+test('parseDate resolves relative dates against now', () => {
+  const now = new Date(2024, 2, 5, 12, 0);
+  assert.equal(parseDate('3 hours ago', { now }), new Date(2024, 2, 5, 9, 0).toISOString());
+  assert.equal(parseDate('a day ago', { now }), new Date(2024, 2, 4, 12, 0).toISOString());
+  assert.equal(parseDate('yesterday', { now }), '2024-03-04');
+  assert.equal(parseDate('Today', { now }), '2024-03-05');
+});
+
+test('parseDate rejects impossible dates and unknown text', () => {
+  assert.equal(parseDate('2024-02-31'), null);
+  assert.equal(parseDate('31/02/2024', { dayFirst: true }), null);
+  assert.equal(parseDate('13/13/2024'), null);
+  assert.equal(parseDate('1/2/3'), null);
+  assert.equal(parseDate('Foo 5, 2024'), null);
+  assert.equal(parseDate('March 5, 2024 soon'), null);
+  assert.equal(parseDate('Item 5'), null);
+  assert.equal(parseDate('Page 3 of 10'), null);
+});
+
+test('resolveTransform applies steps in order and stops at null', () => {
+  assert.equal(apply(['trim', 'uppercase'], '  hi '), 'HI');
+  assert.equal(apply([{ name: 'regex', pattern: '\\d+' }, 'number'], 'none'), null);
+  assert.equal(apply([value => `${value}!`, 'lowercase'], 'HEY'), 'hey!');
+  assert.throws(() => resolveTransform('missing'), /Unknown transform "missing"/);
+});
+
+test('registerTransform adds named transforms with options', () => {
+  registerTransform('repeat', ({ times = 2 }) => value => String(value).repeat(times));
+  assert.equal(apply('repeat', 'ab'), 'abab');
+  assert.equal(apply({ name: 'repeat', times: 3 }, 'x'), 'xxx');
+});
+
+test('built-in text transforms', () => {
+  assert.equal(apply('normalizeWhitespace', ' a \n  b '), 'a b');
+  assert.equal(apply('url', '../about'), 'https://example.com/about');
+  assert.equal(apply('url', 'https://other.org/x'), 'https://other.org/x');
+  assert.equal(apply({ name: 'replace', pattern: '-', replacement: ' ' }, 'a-b-c'), 'a b c');
+  assert.deepEqual(apply('split', 'a, b,, c'), ['a', 'b', 'c']);
+  assert.deepEqual(apply({ name: 'split', separator: '|' }, 'a|b'), ['a', 'b']);
+});
+
+test('boolean maps known words and leaves others null', () => {
+  assert.equal(apply('boolean', ' Yes '), true);
+  assert.equal(apply('boolean', 'off'), false);
+  assert.equal(apply('boolean', 'maybe'), null);
+  assert.equal(apply({ name: 'boolean', true: ['In stock'], false: ['Sold out'] }, 'sold out'), false);
+});
+
+test('regex returns the first group and ignores the g and y flags', () => {
+  assert.equal(apply({ name: 'regex', pattern: /(\d+) points/ }, '42 points'), '42');
+  assert.equal(apply({ name: 'regex', pattern: 'id-\\d+' }, 'see id-7'), 'id-7');
+  assert.equal(apply({ name: 'regex', pattern: '(?<user>\\w+)@', group: 'user' }, 'ada@example.com'), 'ada');
+
+  const transform = resolveTransform({ name: 'regex', pattern: /#(\d+)/g });
+  assert.equal(transform('#1', context), '1');
+  assert.equal(transform('#2', context), '2');
+  assert.equal(resolveTransform({ name: 'regex', pattern: 'b', flags: 'y' })('ab', context), 'b');
+});
+
+test('number, price and date transforms pass their options', () => {
+  assert.equal(apply({ name: 'number', locale: 'de-DE' }, '1.299'), 1299);
+  assert.deepEqual(apply({ name: 'price', currency: 'EUR' }, '9,99'), { amount: 9.99, currency: 'EUR' });
+  assert.equal(apply({ name: 'date', dayFirst: true }, '5/3/2024'), '2024-03-05');
+});